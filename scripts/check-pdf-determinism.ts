@@ -0,0 +1,47 @@
+import sharp from "sharp";
+import { outputProfile, type OutputProfile } from "@/hooks/color";
+import { renderAlbumPdf, renderCoverPdf } from "@/hooks/pdf";
+import { DEFAULT_PAGE_SPEC, type PdfRequest } from "@/hooks/spec";
+import { DEFAULT_THEME } from "@/hooks/theme";
+
+// Renders a sample album and its vendor files twice each and fails when the bytes differ: the PDF
+// export must be byte-for-byte reproducible for the same input (bun run check:pdf).
+
+async function photo(width: number, height: number, r: number) {
+  const image = sharp({ create: { width, height, channels: 3, background: { r, g: 120, b: 200 } } });
+  return new Uint8Array(await image.jpeg().toBuffer());
+}
+
+async function main() {
+  const files = new Map([
+    ["a", await photo(1200, 800, 40)],
+    ["b", await photo(800, 1200, 160)],
+  ]);
+  const request: PdfRequest = {
+    spec: DEFAULT_PAGE_SPEC,
+    theme: { ...DEFAULT_THEME, captionPosition: "below" },
+    pages: [
+      { type: "text", text: { role: "title", heading: "Summer", body: "Two weeks by the sea" } },
+      { type: "twoColumns", items: [{ id: "a", caption: "Harbour" }, { id: "b" }] },
+      { type: "single", items: [{ id: "a", crop: { x: 0.2, y: 0.1, width: 0.5, height: 0.6 } }], spread: true },
+    ],
+  };
+  const print = (profile: OutputProfile) => ({ profile, title: "Summer", createdAt: new Date(0) });
+  const cover = { ...request, title: "Summer", spineMm: 8, wrapMm: 15, photo: { id: "a" } };
+
+  const renders: [string, () => Promise<Uint8Array>][] = [
+    ["album", () => renderAlbumPdf(request, files)],
+    ["print album", async () => renderAlbumPdf(request, files, print(await outputProfile("cmyk")))],
+    ["cover", async () => renderCoverPdf(cover, files, print(await outputProfile("srgb")))],
+  ];
+  let failed = false;
+  for (const [name, render] of renders) {
+    const [first, second] = [await render(), await render()];
+    const same = Buffer.from(first).equals(Buffer.from(second));
+    console.log(`${same ? "ok  " : "FAIL"} ${name} (${first.length} bytes)`);
+    failed ||= !same;
+  }
+  if (failed) process.exit(1);
+}
+
+main();
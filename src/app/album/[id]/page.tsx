@@ -0,0 +1,21 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import AlbumViewer from "@/components/AlbumViewer";
+import { readPublishedAlbum } from "@/hooks/published";
+
+// Republishing replaces the album, so it is read on every request
+export const dynamic = "force-dynamic";
+
+type Props = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const album = await readPublishedAlbum((await params).id);
+  return { title: album?.name || "Photo album" };
+}
+
+export default async function AlbumPage({ params }: Props) {
+  const { id } = await params;
+  const album = await readPublishedAlbum(id);
+  if (!album) notFound();
+  return <AlbumViewer album={album} imageBase={`/api/albums/${id}/images/`} />;
+}
@@ -0,0 +1,18 @@
+import { readPublishedImage } from "@/hooks/published";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string; name: string }> };
+
+/**
+ * GET /api/albums/[id]/images/[name]
+ * A photo of a published album at one viewer width. Names are content hashes, so responses never change.
+ */
+export async function GET(_req: Request, { params }: Context) {
+  const { id, name } = await params;
+  const image = await readPublishedImage(id, name);
+  if (!image) return new Response("Not found", { status: 404 });
+  return new Response(Buffer.from(image), {
+    headers: { "Content-Type": "image/jpeg", "Cache-Control": "public, max-age=31536000, immutable" },
+  });
+}
@@ -0,0 +1,61 @@
+import { maxUploadBytes, publishAlbum } from "@/hooks/published";
+import { isAlbumId, PUBLISH_KEY_HEADER, publishRequestSchema } from "@/hooks/viewer";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/albums/[id]
+ * Publishes an album to the web viewer at /album/[id], replacing an earlier copy. Multipart body like
+ * /api/pdf: `manifest` (JSON, see publishRequestSchema) plus one `file:<id>` part per photo. Republishing needs
+ * the album's publish key in the PUBLISH_KEY_HEADER header; the first publish returns it as `key`.
+ */
+export async function PUT(req: Request, { params }: Context) {
+  const { id } = await params;
+  if (!isAlbumId(id)) return Response.json({ error: "Invalid album id" }, { status: 400 });
+  // Checked before the body is read; browsers always send the length of a FormData body
+  const length = Number(req.headers.get("content-length"));
+  if (!length) return Response.json({ error: "Missing Content-Length" }, { status: 411 });
+  const limit = maxUploadBytes();
+  if (length > limit) {
+    return Response.json({ error: `Album is larger than ${limit / 1024 / 1024} MB` }, { status: 413 });
+  }
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return Response.json({ error: "Expected a multipart/form-data body" }, { status: 400 });
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(String(form.get("manifest") ?? ""));
+  } catch {
+    return Response.json({ error: "Invalid manifest JSON" }, { status: 400 });
+  }
+  const parsed = publishRequestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid manifest", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const files = new Map<string, Uint8Array>();
+  const ids = parsed.data.pages.flatMap((p) => (p.type === "text" ? [] : p.items.map((it) => it.id)));
+  for (const photoId of new Set(ids)) {
+    const part = form.get(`file:${photoId}`);
+    if (!(part instanceof Blob)) return Response.json({ error: `Missing file for image ${photoId}` }, { status: 400 });
+    files.set(photoId, new Uint8Array(await part.arrayBuffer()));
+  }
+
+  try {
+    const published = await publishAlbum(id, req.headers.get(PUBLISH_KEY_HEADER), parsed.data, files);
+    if (!published) {
+      return Response.json({ error: "This album was published from another browser" }, { status: 403 });
+    }
+    const { album, key } = published;
+    return Response.json({ url: `/album/${album.id}`, publishedAt: album.publishedAt, key });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to publish album";
+    return Response.json({ error: message }, { status: 422 });
+  }
+}
@@ -0,0 +1,115 @@
+import { zipSync } from "fflate";
+import { convertForPrint, outputProfile, uprightForPrint } from "@/hooks/color";
+import { renderAlbumPdf, renderCoverPdf } from "@/hooks/pdf";
+import { pdfRequestSchema, type PdfRequest } from "@/hooks/spec";
+import { physicalPages } from "@/hooks/spreads";
+import { findVendor, paddedPageCount, spineWidthMm, vendorPageSpec } from "@/hooks/vendors";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/pdf
+ * Multipart body: `manifest` (JSON, see pdfRequestSchema) plus one `file:<id>` part per image.
+ * A route rather than a server action, since album uploads exceed the server action body limit
+ * and the response is a file download. Requests with `print` get a zip of the vendor's interior and
+ * cover files.
+ */
+export async function POST(req: Request) {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return Response.json({ error: "Expected a multipart/form-data body" }, { status: 400 });
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(String(form.get("manifest") ?? ""));
+  } catch {
+    return Response.json({ error: "Invalid manifest JSON" }, { status: 400 });
+  }
+  const parsed = pdfRequestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid manifest", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const files = new Map<string, Uint8Array>();
+  const ids = parsed.data.pages.flatMap((p) => ("items" in p ? p.items.map((it) => it.id) : []));
+  if (parsed.data.print?.cover) ids.push(parsed.data.print.cover.id);
+  for (const id of new Set(ids)) {
+    const part = form.get(`file:${id}`);
+    if (!(part instanceof Blob)) return Response.json({ error: `Missing file for image ${id}` }, { status: 400 });
+    files.set(id, new Uint8Array(await part.arrayBuffer()));
+  }
+
+  if (parsed.data.print) return printFiles(parsed.data, files);
+
+  try {
+    for (const [id, bytes] of files) files.set(id, await uprightForPrint(bytes));
+    const pdf = await renderAlbumPdf(parsed.data, files);
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'attachment; filename="album.pdf"',
+      },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to render PDF";
+    return Response.json({ error: message }, { status: 422 });
+  }
+}
+
+// Interior and cover files for a vendor, in a zip
+async function printFiles(request: PdfRequest, files: Map<string, Uint8Array>) {
+  const print = request.print!;
+  const profile = findVendor(print.vendor);
+  if (!profile) return Response.json({ error: `Unknown print profile ${print.vendor}` }, { status: 400 });
+  const pages = physicalPages(request.pages.map((p) => ("items" in p ? p : {}))).length;
+  if (paddedPageCount(profile, pages) !== pages) {
+    return Response.json(
+      {
+        error:
+          `${pages} pages can't be bound by ${profile.label} ` +
+          `(${profile.minPages}-${profile.maxPages} pages, in multiples of ${profile.pageMultiple})`,
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    // One photo at a time to bound memory
+    const converted = new Map<string, Uint8Array>();
+    for (const [id, bytes] of files) converted.set(id, await convertForPrint(bytes, profile.colorSpace));
+    const output = {
+      profile: await outputProfile(profile.colorSpace),
+      title: print.title,
+      createdAt: new Date(print.createdAt),
+    };
+    const spec = vendorPageSpec(profile, request.spec);
+    const interior = await renderAlbumPdf({ ...request, spec }, converted, output);
+    const cover = await renderCoverPdf(
+      {
+        spec,
+        theme: request.theme,
+        title: print.title,
+        spineMm: spineWidthMm(profile, pages),
+        wrapMm: profile.cover.wrapMm,
+        photo: print.cover,
+      },
+      converted,
+      output
+    );
+    // PDFs are compressed already; the request's date keeps the zip reproducible too
+    const entry = { level: 0, mtime: output.createdAt } as const;
+    const zip = zipSync({ "interior.pdf": [interior, entry], "cover.pdf": [cover, entry] });
+    return new Response(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": 'attachment; filename="album-print.zip"',
+      },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Failed to render print files";
+    return Response.json({ error: message }, { status: 422 });
+  }
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React from "react";
+import { isIdentity, type Adjustments } from "@/hooks/adjustments";
+
+type Props = {
+  adjustments: Adjustments;
+  // From the analysis; undefined when it had none
+  suggested?: Adjustments;
+  // undefined returns to the suggestion
+  onChange: (edits?: Adjustments) => void;
+};
+
+type SliderKey = "exposure" | "temperature" | "tint" | "straighten";
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number; unit?: string }[] = [
+  { key: "exposure", label: "Exposure", min: -2, max: 2, step: 0.1, unit: " EV" },
+  { key: "temperature", label: "Temperature", min: -1, max: 1, step: 0.05 },
+  { key: "tint", label: "Tint", min: -1, max: 1, step: 0.05 },
+  { key: "straighten", label: "Straighten", min: -10, max: 10, step: 0.5, unit: "°" },
+];
+
+export default function AdjustPanel({ adjustments, suggested, onChange }: Props) {
+  const set = (patch: Adjustments) => onChange({ ...adjustments, ...patch });
+
+  return (
+    <div className="space-y-1 rounded-md border p-2 text-[10px] text-neutral-500">
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={!!adjustments.autoLevels}
+          onChange={(e) => set({ autoLevels: e.target.checked || undefined })}
+        />
+        Auto levels
+      </label>
+      {SLIDERS.map((s) => (
+        <label key={s.key} className="block">
+          <span className="flex justify-between">
+            {s.label}
+            <span>
+              {(adjustments[s.key] ?? 0).toFixed(s.step < 0.1 ? 2 : 1)}
+              {s.unit}
+            </span>
+          </span>
+          <input
+            type="range"
+            min={s.min}
+            max={s.max}
+            step={s.step}
+            value={adjustments[s.key] ?? 0}
+            onChange={(e) => set({ [s.key]: Number(e.target.value) || undefined })}
+            className="w-full"
+          />
+        </label>
+      ))}
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={!!adjustments.sharpen}
+          onChange={(e) => set({ sharpen: e.target.checked || undefined })}
+        />
+        Sharpen for print
+      </label>
+      <div className="flex gap-2 pt-1 text-xs">
+        <button
+          className="text-blue-600 hover:underline disabled:opacity-40"
+          disabled={!suggested}
+          onClick={() => onChange()}
+        >
+          AI suggestion
+        </button>
+        <button
+          className="text-blue-600 hover:underline disabled:opacity-40"
+          disabled={isIdentity(adjustments)}
+          onClick={() => onChange({})}
+        >
+          Original
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,51 @@
 "use client";
 
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import NextImage from "next/image";
-import { analyzeImage, type ImageAnalysis } from "@/hooks/ai";
-import { bytesToReadable, getImageDimensions } from "@/hooks/utils";
+import { NO_ADJUSTMENTS, type Adjustments } from "@/hooks/adjustments";
+import { tryAnalyzeImage, type ImageAnalysis } from "@/hooks/ai";
+import { bundleFileName, exportBundle, importBundle } from "@/hooks/bundle";
+import { captionText, type CaptionSetting } from "@/hooks/captions";
+import { resolveCrop } from "@/hooks/crop";
+import { getAnalysisDerivative } from "@/hooks/derivative";
+import { usePageEditor } from "@/hooks/editor";
+import { useEnhancedPreviews } from "@/hooks/enhance";
+import { EMPTY_FILTER, exifOf, filterGallery, galleryFacets, type GalleryFilter } from "@/hooks/gallery";
+import { ingestImage } from "@/hooks/ingest";
+import type { LayoutItem, LayoutKind, PagePlan } from "@/hooks/layout";
+import { ANALYSIS_PROVIDERS, isProviderId } from "@/hooks/providers";
+import { GOOD_DPI, pixelsFor } from "@/hooks/quality";
+import { DEFAULT_QUEUE_OPTIONS, useAnalysisQueue, type QueueHandlers } from "@/hooks/queue";
+import { computeSignature, excludedIds, groupSimilar, type ImageSignature } from "@/hooks/similarity";
+import { DEFAULT_PAGE_SPEC, describeFormat } from "@/hooks/spec";
+import { LAYOUT_TEMPLATES } from "@/hooks/templates";
+import { DEFAULT_THEME } from "@/hooks/theme";
+import { bytesToReadable, downloadBlob } from "@/hooks/utils";
+import { findVendor } from "@/hooks/vendors";
+import AdjustPanel from "@/components/AdjustPanel";
 import AlbumLayoutPreview from "@/components/AlbumLayoutPreview";
+import AnalysisProgress from "@/components/AnalysisProgress";
+import FormatPicker from "@/components/FormatPicker";
+import GalleryFilters from "@/components/GalleryFilters";
+import ProjectList from "@/components/ProjectList";
+import SelectionBar from "@/components/SelectionBar";
+import SimilarGroups from "@/components/SimilarGroups";
+import StarRating from "@/components/StarRating";
+import ThemePicker from "@/components/ThemePicker";
+import VendorPicker from "@/components/VendorPicker";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  loadProject,
+  saveProject,
+  type PersistedImage,
+  type ProjectMeta,
+} from "@/hooks/projects";
+
+const AUTOSAVE_DELAY_MS = 800;
+
 type AlbumImage = {
   id: string;
   file: File;
@@ -14,26 +55,259 @@ type AlbumImage = {
   status: "pending" | "analyzing" | "done" | "error";
   analysis?: ImageAnalysis;
   error?: string;
+  signature?: ImageSignature;
+  included?: boolean;
+  caption?: CaptionSetting;
+  edits?: Adjustments;
+  // EXIF of the original, for files converted on upload
+  metadata?: Record<string, string>;
+  rating?: number;
+  // Forced layout; undefined follows the analysis recommendation
+  layout?: LayoutKind;
 };
 
+// Manual edits win over the analysis suggestion, as manual crops do
+function adjustmentsOf(it: AlbumImage) {
+  return it.edits ?? it.analysis?.adjustments;
+}
+
+// Caption, capture facts and tags of a gallery card; clicking a tag filters by it
+function GalleryDetails({ item, onTag }: { item: AlbumImage; onTag: (tag: string) => void }) {
+  const exif = exifOf(item);
+  const facts = [
+    exif.time && new Date(exif.time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }),
+    item.analysis?.place?.label,
+    exif.camera,
+  ].filter(Boolean);
+  return (
+    <div className="space-y-1 text-xs">
+      {item.analysis && <p className="line-clamp-2">{item.analysis.contentSummary}</p>}
+      {facts.length > 0 && <p className="truncate text-[10px] text-neutral-500">{facts.join(" · ")}</p>}
+      {item.analysis && item.analysis.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {item.analysis.tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => onTag(tag)}
+              className="rounded-full border px-1.5 text-[10px] text-neutral-500 hover:text-foreground"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+      {item.analysis?.objects.length ? (
+        <p className="truncate text-[10px] text-neutral-500" title={item.analysis.objects.join(", ")}>
+          Objects: {item.analysis.objects.join(", ")}
+        </p>
+      ) : null}
+      {item.layout && (
+        <p className="text-[10px] text-neutral-500">Layout forced to {LAYOUT_TEMPLATES[item.layout].label}</p>
+      )}
+    </div>
+  );
+}
+
 export default function AlbumBuilder() {
   const [items, setItems] = useState<AlbumImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_OPTIONS.concurrency);
   const [view, setView] = useState<"gallery" | "layout">("gallery");
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Uploads of the last selection that could not be added
+  const [ingestErrors, setIngestErrors] = useState<{ name: string; error: string }[]>([]);
+  const [filter, setFilter] = useState<GalleryFilter>(EMPTY_FILTER);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Photos queued by "Re-analyze", which skip the cached answer once
+  const reanalyzing = useRef(new Set<string>());
+  const spec = project?.format ?? DEFAULT_PAGE_SPEC;
+  const theme = project?.theme ?? DEFAULT_THEME;
+
+  // Latest state for project switching, which has to flush and revoke outside of render
+  const itemsRef = useRef(items);
+  const projectRef = useRef(project);
+  useEffect(() => {
+    itemsRef.current = items;
+    projectRef.current = project;
+  }, [items, project]);
+  // Pending autosave, and albums deleted in this session, which a late save must not write back
+  const autosave = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const deleted = useRef(new Set<string>());
+
+  const updateItem = useCallback((id: string, patch: Partial<AlbumImage>) => {
+    setItems((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  }, []);
+
+  const queueHandlers = useMemo<QueueHandlers<ImageAnalysis>>(
+    () => ({
+      onStart: (id) => updateItem(id, { status: "analyzing", error: undefined }),
+      onDone: (id, analysis) => updateItem(id, { status: "done", analysis }),
+      onError: (id, error) => updateItem(id, { status: "error", error }),
+      onCancel: (ids) =>
+        setItems((prev) => prev.map((p) => (ids.includes(p.id) && p.status === "analyzing" ? { ...p, status: "pending" } : p))),
+    }),
+    [updateItem]
+  );
+  const queueOptions = useMemo(() => ({ ...DEFAULT_QUEUE_OPTIONS, concurrency }), [concurrency]);
+
+  const { progress, enqueue, pause, resume, cancel: cancelQueue } = useAnalysisQueue<ImageAnalysis>(
+    async (id) => {
+      const it = itemsRef.current.find((p) => p.id === id);
+      if (!it) return { ok: false, error: "Image was removed", retryable: false };
+      const { blob, metadata } = await getAnalysisDerivative(it.file, it.metadata);
+      const res = await tryAnalyzeImage({
+        file: blob,
+        width: it.width,
+        height: it.height,
+        mimeType: blob.type,
+        metadata,
+        format: projectRef.current?.format ?? DEFAULT_PAGE_SPEC,
+        provider: projectRef.current?.provider,
+        refresh: reanalyzing.current.has(id),
+      });
+      if (res.ok) reanalyzing.current.delete(id);
+      return res.ok ? { ok: true, value: res.analysis } : res;
+    },
+    queueHandlers,
+    queueOptions
+  );
+
+  const persist = useCallback(async (meta: ProjectMeta, images: PersistedImage[]) => {
+    if (deleted.current.has(meta.id)) return;
+    try {
+      const saved = await saveProject(meta, images);
+      setProjects((prev) => [saved, ...prev.filter((p) => p.id !== saved.id)]);
+      setSaveError(null);
+    } catch (err: unknown) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save album");
+    }
+  }, []);
+
+  const openProject = useCallback(
+    async (id: string) => {
+      const current = projectRef.current;
+      if (current?.id === id) return;
+      cancelQueue();
+      if (current) await persist(current, itemsRef.current);
+
+      const { meta, images } = await loadProject(id);
+      for (const it of itemsRef.current) URL.revokeObjectURL(it.previewUrl);
+      setItems(images.map((it) => ({ ...it, previewUrl: URL.createObjectURL(it.file) })));
+      setFilter(EMPTY_FILTER);
+      setSelected(new Set());
+      setProject(meta);
+      setView("gallery");
+    },
+    [persist, cancelQueue]
+  );
+
+  const newProject = useCallback(async () => {
+    const meta = await createProject("Untitled album");
+    setProjects((prev) => [meta, ...prev]);
+    await openProject(meta.id);
+  }, [openProject]);
+
+  const copyProject = useCallback(
+    async (id: string) => {
+      const current = projectRef.current;
+      if (current?.id === id) await persist(current, itemsRef.current);
+      const copy = await duplicateProject(id);
+      setProjects((prev) => [copy, ...prev]);
+    },
+    [persist]
+  );
+
+  const exportProject = useCallback(
+    async (id: string) => {
+      const current = projectRef.current;
+      if (current?.id === id) await persist(current, itemsRef.current);
+      try {
+        const name = projects.find((p) => p.id === id)?.name ?? "album";
+        downloadBlob(await exportBundle(id), bundleFileName(name));
+        setSaveError(null);
+      } catch (err: unknown) {
+        setSaveError(err instanceof Error ? err.message : "Failed to export album");
+      }
+    },
+    [persist, projects]
+  );
+
+  const importProject = useCallback(
+    async (file: File) => {
+      try {
+        const meta = await importBundle(file);
+        setProjects((prev) => [meta, ...prev]);
+        setSaveError(null);
+        await openProject(meta.id);
+      } catch (err: unknown) {
+        setSaveError(err instanceof Error ? err.message : "Failed to import album");
+      }
+    },
+    [openProject]
+  );
+
+  const removeProject = useCallback(
+    async (id: string) => {
+      deleted.current.add(id);
+      if (projectRef.current?.id === id) {
+        clearTimeout(autosave.current);
+        cancelQueue();
+      }
+      await deleteProject(id);
+      const rest = (await listProjects()).filter((p) => p.id !== id);
+      setProjects(rest);
+      if (projectRef.current?.id !== id) return;
+      projectRef.current = null;
+      setProject(null);
+      if (rest.length > 0) await openProject(rest[0].id);
+      else await newProject();
+    },
+    [openProject, newProject, cancelQueue]
+  );
+
+  // Reopen the most recently edited album on load
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const all = await listProjects();
+      if (cancelled) return;
+      setProjects(all);
+      if (all.length > 0) await openProject(all[0].id);
+      else await newProject();
+    })().catch((err: unknown) => setSaveError(err instanceof Error ? err.message : "Failed to open album store"));
+    return () => {
+      cancelled = true;
+    };
+  }, [openProject, newProject]);
+
+  // Autosave
+  useEffect(() => {
+    if (!project) return;
+    autosave.current = setTimeout(() => persist(project, items), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(autosave.current);
+  }, [project, items, persist]);
 
   const onFilesSelected = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     const next: AlbumImage[] = [];
+    const failed: { name: string; error: string }[] = [];
+    // One file at a time: HEIC decoding and RAW previews hold whole files in memory
     for (const file of Array.from(files)) {
-      const { width, height } = await getImageDimensions(file);
-      const id = crypto.randomUUID();
-      const previewUrl = URL.createObjectURL(file);
-      next.push({ id, file, previewUrl, width, height, status: "pending" });
+      try {
+        const { file: ingested, width, height, metadata } = await ingestImage(file);
+        const id = crypto.randomUUID();
+        const previewUrl = URL.createObjectURL(ingested);
+        next.push({ id, file: ingested, previewUrl, width, height, status: "pending", metadata });
+      } catch (err: unknown) {
+        failed.push({ name: file.name, error: err instanceof Error ? err.message : "Could not read this file" });
+      }
     }
 
     setItems((prev) => [...prev, ...next]);
+    setIngestErrors(failed);
   }, []);
 
   const handleDrop = useCallback(
@@ -60,28 +334,6 @@ export default function AlbumBuilder() {
     setIsDragging(false);
   }, []);
 
-  const analyzePending = useCallback(async () => {
-    const toAnalyze = items.filter((x) => x.status === "pending");
-    if (toAnalyze.length === 0) return;
-
-    setIsAnalyzing(true);
-    try {
-      for (const it of toAnalyze) {
-        // Update status to analyzing
-        setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "analyzing" } : p)));
-        try {
-          const res = await analyzeImage({ file: it.file, width: it.width, height: it.height, mimeType: it.file.type });
-          setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "done", analysis: res } : p)));
-        } catch (err: unknown) {
-          const message = err instanceof Error ? err.message : "Unknown error";
-          setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "error", error: message } : p)));
-        }
-      }
-    } finally {
-      setIsAnalyzing(false);
-    }
-  }, [items]);
-
   const removeItem = useCallback((id: string) => {
     setItems((prev) => prev.filter((p) => {
       if (p.id === id) URL.revokeObjectURL(p.previewUrl);
@@ -89,14 +341,164 @@ export default function AlbumBuilder() {
     }));
   }, []);
 
-  const hasPending = useMemo(() => items.some((x) => x.status === "pending"), [items]);
-  const analyzedItems = useMemo(() => items.filter((x) => x.analysis), [items]);
+  // Signatures for duplicate/burst detection, one image at a time to bound decode memory
+  const signing = useRef({ started: new Set<string>(), chain: Promise.resolve() });
+  useEffect(() => {
+    const s = signing.current;
+    for (const it of items) {
+      if (it.signature || s.started.has(it.id)) continue;
+      s.started.add(it.id);
+      s.chain = s.chain
+        .then(() => computeSignature(it.file, it.metadata))
+        .then((signature) => updateItem(it.id, { signature }))
+        // Undecodable here (e.g. HEIC outside Safari): the image is simply never grouped
+        .catch(() => {});
+    }
+  }, [items, updateItem]);
+
+  // Enhanced renders for the gallery and the layout preview; `before` lists cards showing the original
+  const enhanceInputs = useMemo(
+    () => items.map((it) => ({ id: it.id, file: it.file, adjustments: adjustmentsOf(it) })),
+    [items]
+  );
+  const enhanced = useEnhancedPreviews(enhanceInputs);
+  const [before, setBefore] = useState<Set<string>>(new Set());
+  const [adjusting, setAdjusting] = useState<string | null>(null);
+  const toggleBefore = useCallback((id: string) => {
+    setBefore((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+
+  const similarGroups = useMemo(() => groupSimilar(items), [items]);
+  const excluded = useMemo(() => excludedIds(similarGroups, items), [similarGroups, items]);
+
+  const facets = useMemo(() => galleryFacets(items), [items]);
+  const shownItems = useMemo(() => filterGallery(items, filter, excluded), [items, filter, excluded]);
+  // Bulk actions apply to the selected photos the filter shows
+  const selectedIds = useMemo(
+    () => shownItems.filter((it) => selected.has(it.id)).map((it) => it.id),
+    [shownItems, selected]
+  );
+  const toggleSelected = useCallback((id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+  const updateSelected = useCallback(
+    (patch: Partial<AlbumImage>) => {
+      const ids = new Set(selectedIds);
+      setItems((prev) => prev.map((p) => (ids.has(p.id) ? { ...p, ...patch } : p)));
+    },
+    [selectedIds]
+  );
+  const reanalyzeSelected = useCallback(() => {
+    for (const id of selectedIds) reanalyzing.current.add(id);
+    enqueue(selectedIds);
+  }, [selectedIds, enqueue]);
+
+  const pendingIds = useMemo(() => items.filter((x) => x.status === "pending").map((x) => x.id), [items]);
+  const failedIds = useMemo(() => items.filter((x) => x.status === "error").map((x) => x.id), [items]);
+  const analyzedItems = useMemo(() => items.filter((x) => x.analysis && !excluded.has(x.id)), [items, excluded]);
+  const layoutItems = useMemo<LayoutItem[]>(
+    () =>
+      analyzedItems.map((it) => ({
+        id: it.id,
+        previewUrl: enhanced.get(it.id) ?? it.previewUrl,
+        file: it.file,
+        width: it.width,
+        height: it.height,
+        caption: captionText(it.caption, theme.captions, {
+          summary: it.analysis?.contentSummary,
+          time: it.analysis?.metadata.time,
+          place: it.analysis?.place,
+        }),
+        captionSetting: it.caption,
+        adjustments: adjustmentsOf(it),
+        analysis: it.analysis
+          ? {
+              layout: it.layout ?? it.analysis.layout,
+              time: it.analysis.metadata.time,
+              summary: it.analysis.contentSummary,
+              tags: it.analysis.tags,
+              location: it.analysis.metadata.location,
+              place: it.analysis.place,
+              crop: resolveCrop(it.analysis),
+              focalPoint: it.analysis.focalPoint,
+            }
+          : undefined,
+      })),
+    [analyzedItems, enhanced, theme.captions]
+  );
+
+  const savePages = useCallback((pages: PagePlan[] | undefined) => {
+    setProject((prev) => (prev ? { ...prev, pages } : prev));
+  }, []);
+  const editor = usePageEditor(layoutItems, project?.pages, savePages, project?.id);
 
   return (
     <div className="grid grid-cols-12 gap-6 w-full">
       {/* Sidebar (hidden on print) */}
       <aside className="print-hide col-span-12 md:col-span-4 lg:col-span-3 border rounded-xl p-4 bg-white/50 dark:bg-black/20">
-        <h2 className="text-lg font-semibold mb-3">Upload Photos</h2>
+        <ProjectList
+          projects={projects}
+          currentId={project?.id}
+          onOpen={openProject}
+          onCreate={newProject}
+          onDuplicate={copyProject}
+          onDelete={removeProject}
+          onExport={exportProject}
+          onImport={importProject}
+        />
+        {project && (
+          <input
+            value={project.name}
+            onChange={(e) => setProject({ ...project, name: e.target.value })}
+            className="mt-3 h-9 w-full rounded-md border px-2 text-sm bg-transparent"
+            aria-label="Album name"
+          />
+        )}
+        {saveError && <div className="mt-2 text-xs text-red-600">{saveError}</div>}
+
+        {project && (
+          <div className="mt-6">
+            <FormatPicker spec={spec} onChange={(format) => setProject({ ...project, format })} />
+            <div className="mt-6">
+              <VendorPicker
+                vendor={project.vendor}
+                spec={spec}
+                onChange={(vendor) => setProject({ ...project, vendor })}
+                onFormatChange={(format) => setProject({ ...project, format })}
+              />
+            </div>
+            <div className="mt-6">
+              <ThemePicker theme={theme} onChange={(next) => setProject({ ...project, theme: next })} />
+            </div>
+            <label className="mt-3 block text-[10px] text-neutral-500">
+              Analysis provider
+              <select
+                value={project.provider ?? ""}
+                onChange={(e) =>
+                  setProject({ ...project, provider: isProviderId(e.target.value) ? e.target.value : undefined })
+                }
+                className="h-9 w-full rounded-md border px-2 text-sm text-foreground bg-transparent"
+              >
+                <option value="">Server default</option>
+                {ANALYSIS_PROVIDERS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold mt-6 mb-3">Upload Photos</h2>
         <div
           onDrop={handleDrop}
           onDragOver={handleDragOver}
@@ -108,7 +510,7 @@ export default function AlbumBuilder() {
           <input
             id="file-input"
             type="file"
-            accept="image/*"
+            accept="image/*,.heic,.heif,.dng,.cr2,.nef,.arw"
             multiple
             className="hidden"
             onChange={(e) => onFilesSelected(e.target.files)}
@@ -118,26 +520,64 @@ export default function AlbumBuilder() {
             <div className="text-xs text-neutral-500">or click to select</div>
           </label>
         </div>
+        {ingestErrors.length > 0 && (
+          <div className="mt-2 space-y-0.5 text-xs text-red-600">
+            {ingestErrors.map((f, i) => (
+              <p key={i} className="break-words">
+                {f.name}: {f.error}
+              </p>
+            ))}
+            <button onClick={() => setIngestErrors([])} className="text-neutral-500 hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
 
-        <div className="mt-4 flex items-center gap-2">
+        <div className="mt-4 flex flex-wrap items-center gap-2">
           <button
-            disabled={!hasPending || isAnalyzing}
-            onClick={analyzePending}
+            disabled={pendingIds.length === 0}
+            onClick={() => enqueue(pendingIds)}
             className="h-10 px-4 rounded-md bg-black text-white disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isAnalyzing ? "Analyzing..." : "Analyze"}
+            Analyze{pendingIds.length ? ` (${pendingIds.length})` : ""}
           </button>
+          {failedIds.length > 0 && (
+            <button onClick={() => enqueue(failedIds)} className="h-10 px-3 rounded-md border">
+              Retry failed ({failedIds.length})
+            </button>
+          )}
           <button
-            onClick={() => setItems([])}
+            onClick={() => {
+              cancelQueue();
+              setItems([]);
+            }}
             className="h-10 px-3 rounded-md border"
           >
             Clear
           </button>
         </div>
+        <label className="mt-2 flex items-center gap-2 text-xs text-neutral-500">
+          Parallel requests
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+            className="h-7 w-14 rounded-md border px-1 text-foreground bg-transparent"
+          />
+        </label>
+        <AnalysisProgress progress={progress} onPause={pause} onResume={resume} onCancel={cancelQueue} />
 
         <div className="mt-6 space-y-1 text-xs text-neutral-500">
-          <p>• Supported: PNG, JPG, HEIC (browser dependent).</p>
-          <p>• For full-page A4 print at 300 DPI, aim for ≥ 2480×3508 px.</p>
+          <p>
+            • Supported: JPEG, PNG, HEIC/HEIF, WebP, AVIF, GIF, BMP, and camera RAW (DNG, CR2, NEF, ARW) through
+            its embedded preview. Converted files are stored as JPEG.
+          </p>
+          <p>
+            • For a full page ({describeFormat(spec)}) at {GOOD_DPI} DPI, aim for ≥ {pixelsFor(spec.widthMm)}×
+            {pixelsFor(spec.heightMm)} px. Smaller slots need proportionally fewer pixels.
+          </p>
         </div>
       </aside>
 
@@ -166,77 +606,152 @@ export default function AlbumBuilder() {
             <div className="h-full grid place-items-center text-neutral-500">Analyze at least one image to preview layout.</div>
           ) : (
             <AlbumLayoutPreview
-              items={analyzedItems.map((it) => ({
-                id: it.id,
-                previewUrl: it.previewUrl,
-                width: it.width,
-                height: it.height,
-                analysis: it.analysis?.layout ? { layout: it.analysis.layout } : undefined,
-              }))}
+              items={layoutItems}
+              editor={editor}
+              spec={spec}
+              theme={theme}
+              onCaptionChange={(id, caption) => updateItem(id, { caption })}
+              albumName={project?.name}
+              provider={project?.provider}
+              vendor={findVendor(project?.vendor)}
+              albumId={project?.id}
             />
           )
         ) : items.length === 0 ? (
           <div className="h-full grid place-items-center text-neutral-500">No images yet. Upload to begin.</div>
         ) : (
-          <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5">
-            {items.map((it) => (
-              <div key={it.id} className="group border rounded-xl overflow-hidden bg-white/50 dark:bg-black/20">
-                <div className="relative aspect-[4/3] overflow-hidden">
-                  <NextImage
-                    src={it.previewUrl}
-                    alt={it.file.name}
-                    fill
-                    className="object-cover"
-                    unoptimized
-                  />
-                  <div className="absolute top-2 left-2 text-xs px-2 py-1 rounded-md bg-black/70 text-white">
-                    {it.width}×{it.height}
-                  </div>
-                  {it.status === "analyzing" && (
-                    <div className="absolute inset-0 grid place-items-center bg-black/40 text-white text-sm">
-                      Analyzing...
+          <>
+            <SimilarGroups
+              groups={similarGroups}
+              items={items.map((it) => ({ id: it.id, previewUrl: it.previewUrl, name: it.file.name }))}
+              excluded={excluded}
+              onToggle={(id, included) => updateItem(id, { included })}
+              onReset={(ids) =>
+                setItems((prev) => prev.map((p) => (ids.includes(p.id) ? { ...p, included: undefined } : p)))
+              }
+            />
+            <GalleryFilters
+              filter={filter}
+              onChange={setFilter}
+              facets={facets}
+              shown={shownItems.length}
+              total={items.length}
+            />
+            <SelectionBar
+              selected={selectedIds.length}
+              shown={shownItems.length}
+              onSelectAll={() => setSelected(new Set(shownItems.map((it) => it.id)))}
+              onClear={() => setSelected(new Set())}
+              onReanalyze={reanalyzeSelected}
+              onInclude={(included) => updateSelected({ included })}
+              onForceLayout={(layout) => updateSelected({ layout })}
+              onRate={(rating) => updateSelected({ rating })}
+            />
+            {shownItems.length === 0 && (
+              <div className="py-12 text-center text-sm text-neutral-500">No photos match the filters.</div>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5">
+              {shownItems.map((it) => (
+                <div
+                  key={it.id}
+                  className={`group border rounded-xl overflow-hidden bg-white/50 dark:bg-black/20 ${
+                    selected.has(it.id) ? "ring-2 ring-blue-500" : ""
+                  }`}
+                >
+                  <div className="relative aspect-[4/3] overflow-hidden">
+                    <NextImage
+                      src={(!before.has(it.id) && enhanced.get(it.id)) || it.previewUrl}
+                      alt={it.file.name}
+                      fill
+                      className="object-cover"
+                      unoptimized
+                    />
+                    <div className="absolute top-2 left-2 text-xs px-2 py-1 rounded-md bg-black/70 text-white">
+                      {it.width}×{it.height}
                     </div>
-                  )}
-                </div>
-                <div className="p-3 space-y-2">
-                  <div className="flex items-center justify-between gap-2">
-                    <div className="text-sm font-medium truncate" title={it.file.name}>{it.file.name}</div>
-                    <div className="text-[10px] text-neutral-500">{bytesToReadable(it.file.size)}</div>
+                    {excluded.has(it.id) && (
+                      <div className="absolute top-2 right-2 text-xs px-2 py-1 rounded-md bg-amber-500 text-black">
+                        Excluded
+                      </div>
+                    )}
+                    {enhanced.has(it.id) && (
+                      <button
+                        className="absolute bottom-2 left-2 text-xs px-2 py-1 rounded-md bg-black/70 text-white"
+                        onClick={() => toggleBefore(it.id)}
+                        title="Compare with the original"
+                      >
+                        {before.has(it.id) ? "Before" : "After"}
+                      </button>
+                    )}
+                    {it.status === "analyzing" && (
+                      <div className="absolute inset-0 grid place-items-center bg-black/40 text-white text-sm">
+                        Analyzing...
+                      </div>
+                    )}
                   </div>
-
-                  {it.status === "error" && (
-                    <div className="text-xs text-red-600">{it.error}</div>
-                  )}
-
-                  <div className="flex items-center justify-between pt-2">
-                    <button
-                      className="text-xs text-red-600 hover:underline"
-                      onClick={() => removeItem(it.id)}
-                    >
-                      Remove
-                    </button>
-                    {it.status === "pending" && (
+                  <div className="p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(it.id)}
+                        onChange={() => toggleSelected(it.id)}
+                        aria-label={`Select ${it.file.name}`}
+                      />
+                      <div className="flex-1 text-sm font-medium truncate" title={it.file.name}>{it.file.name}</div>
+                      <div className="text-[10px] text-neutral-500">{bytesToReadable(it.file.size)}</div>
+                    </div>
+                    <GalleryDetails
+                      item={it}
+                      onTag={(tag) =>
+                        setFilter((f) => (f.tags.includes(tag) ? f : { ...f, tags: [...f.tags, tag] }))
+                      }
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <StarRating value={it.rating} onChange={(rating) => updateItem(it.id, { rating })} />
                       <button
                         className="text-xs text-blue-600 hover:underline"
-                        onClick={async () => {
-                          setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "analyzing" } : p)));
-                          try {
-                            const res = await analyzeImage({ file: it.file, width: it.width, height: it.height, mimeType: it.file.type });
-                            setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "done", analysis: res } : p)));
-                          } catch (err: unknown) {
-                            const message = err instanceof Error ? err.message : "Unknown error";
-                            setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, status: "error", error: message } : p)));
-                          }
-                        }}
+                        onClick={() => updateItem(it.id, { included: excluded.has(it.id) })}
                       >
-                        Analyze
+                        {excluded.has(it.id) ? "Include" : "Exclude"}
                       </button>
+                    </div>
+
+                    {it.status === "error" && (
+                      <div className="text-xs text-red-600">{it.error}</div>
                     )}
+
+                    {adjusting === it.id && (
+                      <AdjustPanel
+                        adjustments={adjustmentsOf(it) ?? NO_ADJUSTMENTS}
+                        suggested={it.analysis?.adjustments}
+                        onChange={(edits) => updateItem(it.id, { edits })}
+                      />
+                    )}
+
+                    <div className="flex items-center justify-between pt-2">
+                      <button
+                        className="text-xs text-red-600 hover:underline"
+                        onClick={() => removeItem(it.id)}
+                      >
+                        Remove
+                      </button>
+                      <button
+                        className="text-xs text-blue-600 hover:underline"
+                        onClick={() => setAdjusting(adjusting === it.id ? null : it.id)}
+                      >
+                        {adjusting === it.id ? "Done" : "Adjust"}
+                      </button>
+                      {(it.status === "pending" || it.status === "error") && (
+                        <button className="text-xs text-blue-600 hover:underline" onClick={() => enqueue([it.id])}>
+                          {it.status === "error" ? "Retry" : "Analyze"}
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          </>
         )}
       </main>
     </div>
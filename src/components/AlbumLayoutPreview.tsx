@@ -1,168 +1,1101 @@
 "use client";
 
-import React, { useCallback, useMemo } from "react";
-import Image from "next/image";
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from "react";
+import Image, { type ImageLoader } from "next/image";
+import CropEditor from "@/components/CropEditor";
+import PreflightReport, { QUALITY_STYLES } from "@/components/PreflightReport";
+import VendorReport from "@/components/VendorReport";
+import { CAPTION_SOURCES, MAX_CAPTION_LENGTH, type CaptionSetting, type CaptionSource } from "@/hooks/captions";
+import { coverCrop, cropStyle, effectiveDpi, FULL_CROP, type Crop } from "@/hooks/crop";
+import type { EditAction, PageEditor, SlotRef } from "@/hooks/editor";
+import { printFile } from "@/hooks/enhance";
+import {
+  buildPages,
+  LAYOUT_CAPACITY,
+  pagePlace,
+  sortChronologically,
+  TEXT_LAYOUT,
+  TEXT_SIZES,
+  type LayoutItem,
+  type LayoutKind,
+  type PagePlan,
+  type PageText,
+  type Rect,
+} from "@/hooks/layout";
+import { planAlbum, type PhotoDigest } from "@/hooks/planner";
+import type { ProviderId } from "@/hooks/providers";
+import { GOOD_DPI, preflight, type Placement } from "@/hooks/quality";
+import { contentBox, type PageSpec, type PdfRequest } from "@/hooks/spec";
+import {
+  BINDING_SAFE_MM,
+  frameBox,
+  gutterWarnings,
+  openingLabel,
+  openings,
+  pageSlots,
+  physicalPages,
+  type Opening,
+  type PageOptions,
+  type PhysicalPage,
+} from "@/hooks/spreads";
+import { rewriteTextPage, suggestTextPages, type PageDigest } from "@/hooks/story";
+import { LAYOUT_KINDS, LAYOUT_TEMPLATES } from "@/hooks/templates";
+import {
+  CAPTION_LINE_HEIGHT,
+  CAPTION_SIZE,
+  captionRect,
+  DEFAULT_THEME,
+  FONT_STACKS,
+  footerRect,
+  LINE_WIDTH_MM,
+  OVERLAY_OPACITY,
+  photoArea,
+  type AlbumTheme,
+} from "@/hooks/theme";
+import { downloadBlob } from "@/hooks/utils";
+import {
+  checkVendor,
+  paddedPageCount,
+  paddingPages,
+  spineWidthMm,
+  type Padding,
+  type VendorProfile,
+} from "@/hooks/vendors";
+import { PUBLISH_KEY_HEADER, type PublishRequest } from "@/hooks/viewer";
 
-export type LayoutKind = "single" | "twoColumns" | "twoRows" | "grid2x2";
-
-export type LayoutItem = {
-  id: string;
-  previewUrl: string;
-  width: number;
-  height: number;
-  analysis?: { layout?: LayoutKind };
-};
-
-export type Page = { type: LayoutKind; items: LayoutItem[] };
+export type { LayoutKind, LayoutItem, Page } from "@/hooks/layout";
 
 type Props = {
   items: LayoutItem[];
+  editor: PageEditor;
+  spec: PageSpec;
+  theme: AlbumTheme;
+  onCaptionChange: (itemId: string, setting?: CaptionSetting) => void;
+  // Context for album planning and title and chapter suggestions
+  albumName?: string;
+  provider?: ProviderId;
+  // Exports print files for this vendor instead of a plain PDF
+  vendor?: VendorProfile;
+  // Saved album id; publishing to the web viewer needs one
+  albumId?: string;
 };
 
-function chunk<T>(arr: T[], n: number) {
-  const res: T[][] = [];
-  for (let i = 0; i < arr.length; i += n) res.push(arr.slice(i, i + n));
-  return res;
-}
-
-function buildPages(items: LayoutItem[]): Page[] {
-  const singles: LayoutItem[] = [];
-  const twoCols: LayoutItem[] = [];
-  const twoRows: LayoutItem[] = [];
-  const grid4: LayoutItem[] = [];
-
-  const normalize = (it: LayoutItem): LayoutKind | undefined => {
-    const raw = it.analysis?.layout as string | undefined;
-    if (!raw) return undefined;
-    const v = raw.toLowerCase();
-    if (v === "single") return "single";
-    if (v === "twocolumns" || v === "two-columns" || v === "col" || v === "column" || v === "columns") return "twoColumns";
-    if (v === "tworows" || v === "two-rows" || v === "row" || v === "rows") return "twoRows";
-    if (v === "grid2x2" || v === "grid" || v === "2x2") return "grid2x2";
-    return undefined;
+type PreviewPage = PagePlan & { items: LayoutItem[] };
+
+// What the page components show of a photo; the album viewer has no original files
+export type PagePhoto = Omit<LayoutItem, "file">;
+export type ViewPage = PagePlan & { items: PagePhoto[] };
+
+const SLOT_MIME = "application/x-album-slot";
+const PAGE_MIME = "application/x-album-page";
+
+const TEXT_ROLE_LABELS = { title: "Title page", chapter: "Chapter" } as const;
+
+const pct = (mm: number, total: number) => `${(mm / total) * 100}%`;
+// Sizes given as a fraction of the container width; `.page` is a size container
+const cqw = (fraction: number) => `${fraction * 100}cqw`;
+
+// Position of a rect (mm) inside a containing rect, in %
+function placeIn(r: Rect, within: Rect): React.CSSProperties {
+  return {
+    left: pct(r.x - within.x, within.width),
+    top: pct(r.y - within.y, within.height),
+    width: pct(r.width, within.width),
+    height: pct(r.height, within.height),
   };
+}
 
-  for (const it of items) {
-    const kind = normalize(it);
-    if (kind === "single") singles.push(it);
-    else if (kind === "twoColumns") twoCols.push(it);
-    else if (kind === "twoRows") twoRows.push(it);
-    else if (kind === "grid2x2") grid4.push(it);
-    else {
-      // Fallback based on orientation: portrait -> twoColumns, landscape -> twoRows
-      if (it.width >= it.height) twoRows.push(it);
-      else twoCols.push(it);
-    }
-  }
-
-  const pages: Page[] = [];
-  for (const s of singles) pages.push({ type: "single", items: [s] });
-  for (const pair of chunk(twoCols, 2)) {
-    if (pair.length === 2) pages.push({ type: "twoColumns", items: pair });
-    else pages.push({ type: "single", items: pair });
-  }
-  for (const pair of chunk(twoRows, 2)) {
-    if (pair.length === 2) pages.push({ type: "twoRows", items: pair });
-    else pages.push({ type: "single", items: pair });
-  }
-  for (const quad of chunk(grid4, 4)) {
-    if (quad.length === 4) pages.push({ type: "grid2x2", items: quad });
-    else if (quad.length === 3) pages.push({ type: "twoRows", items: quad.slice(0, 2) });
-    else if (quad.length === 2) pages.push({ type: "twoColumns", items: quad });
-    else if (quad.length === 1) pages.push({ type: "single", items: quad });
-  }
-
-  return pages;
-}
-
-function SinglePage({ item }: { item: LayoutItem }) {
+// Manual crop from the page plan, else the AI suggestion, else the full frame
+function slotCrop(page: Pick<PagePlan, "crops">, item: PagePhoto): Crop {
+  return page.crops?.[item.id] ?? item.analysis?.crop ?? FULL_CROP;
+}
+
+const EditContext = createContext<(action: EditAction) => void>(() => {});
+const SpecContext = createContext<PageSpec | null>(null);
+const ThemeContext = createContext<AlbumTheme>(DEFAULT_THEME);
+// Sets a photo's own caption; undefined returns it to the album default
+const CaptionContext = createContext<(itemId: string, setting?: CaptionSetting) => void>(() => {});
+// Print quality by "page:slot"
+const QualityContext = createContext<Map<string, Placement>>(new Map());
+// "page:slot" of photos whose subject falls into the binding gutter
+const GutterContext = createContext<Set<string>>(new Set());
+// Area (mm) the current page element shows: one page, or both pages of a spread
+const FrameContext = createContext<Rect | null>(null);
+// Set for read-only pages (the album viewer): no editing controls or print checks; photos load through `loader`
+const ViewerContext = createContext<{ loader: ImageLoader } | null>(null);
+
+function useSpec() {
+  const spec = useContext(SpecContext);
+  if (!spec) throw new Error("Page components must be rendered inside AlbumLayoutPreview");
+  return spec;
+}
+
+function useFrame() {
+  const spec = useSpec();
+  return useContext(FrameContext) ?? frameBox(spec);
+}
+
+// cqw for sizes given as a fraction of the page width, also on spreads (two pages wide)
+function usePageCqw() {
+  const spec = useSpec();
+  const frame = useFrame();
+  return (fraction: number) => cqw((fraction * spec.widthMm) / frame.width);
+}
+
+// One-line caption centered in its strip, shortened with an ellipsis like in the PDF
+function CaptionLine({ text, style }: { text: string; style: React.CSSProperties }) {
+  const pageCqw = usePageCqw();
   return (
-    <div className="page bg-white">
-      <div className="page-inner h-full w-full">
-        <div className="relative w-full h-full">
-          <Image src={item.previewUrl} alt="photo" fill className="object-contain" unoptimized />
-        </div>
-      </div>
+    <div
+      className="absolute flex items-center justify-center overflow-hidden"
+      style={{ fontSize: pageCqw(CAPTION_SIZE), lineHeight: CAPTION_LINE_HEIGHT, ...style }}
+    >
+      <span className="truncate">{text}</span>
     </div>
   );
 }
 
-function TwoColumnsPage({ items }: { items: LayoutItem[] }) {
-  const [a, b] = items;
+function CaptionEditor({ item, onClose }: { item: PagePhoto; onClose: () => void }) {
+  const setCaption = useContext(CaptionContext);
+  const [source, setSource] = useState<CaptionSource | "default">(item.captionSetting?.source ?? "default");
+  const [text, setText] = useState(item.captionSetting?.text ?? item.caption ?? "");
   return (
-    <div className="page bg-white">
-      <div className="page-inner h-full w-full grid grid-cols-2 gap-6">
-        {[a, b].map((it) => (
-          <div key={it.id} className="relative w-full h-full">
-            <Image src={it.previewUrl} alt="photo" fill className="object-contain" unoptimized />
-          </div>
+    <div
+      className={`print-hide absolute right-2 top-10 z-20 flex w-64 max-w-[90%] flex-col gap-2 rounded-md bg-white p-2
+        text-xs text-black shadow-lg`}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <select
+        value={source}
+        onChange={(e) => setSource(e.target.value as CaptionSource | "default")}
+        className="h-8 rounded-md border px-1"
+      >
+        <option value="default">Album default</option>
+        {CAPTION_SOURCES.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.label}
+          </option>
         ))}
+      </select>
+      {source === "custom" && (
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_CAPTION_LENGTH}
+          className="h-8 rounded-md border px-2"
+          aria-label="Caption"
+          autoFocus
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <button className="h-7 px-2 rounded-md border" onClick={onClose}>
+          Cancel
+        </button>
+        <button
+          className="h-7 px-2 rounded-md bg-black text-white"
+          onClick={() => {
+            const setting = source === "default" ? undefined : { source, text: source === "custom" ? text : undefined };
+            setCaption(item.id, setting);
+            onClose();
+          }}
+        >
+          Apply
+        </button>
       </div>
     </div>
   );
 }
 
-function TwoRowsPage({ items }: { items: LayoutItem[] }) {
-  const [a, b] = items;
+// Slots are positioned from the page spec (not CSS grid), so screen, print and PDF share one geometry
+function PhotoSlot({ item, crop, rect, slot }: { item?: PagePhoto; crop: Crop; rect: Rect; slot: SlotRef }) {
+  const edit = useContext(EditContext);
+  const viewer = useContext(ViewerContext);
+  const spec = useSpec();
+  const frame = useFrame();
+  const pageCqw = usePageCqw();
+  const theme = useContext(ThemeContext);
+  const placement = useContext(QualityContext).get(`${slot.page}:${slot.slot}`);
+  const inGutter = useContext(GutterContext).has(`${slot.page}:${slot.slot}`);
+  const [isOver, setIsOver] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [isCaptioning, setIsCaptioning] = useState(false);
+  const caption = item?.caption;
+  const area = photoArea(rect, spec, theme, !!caption);
+  const visible = item && coverCrop(crop, item.width, item.height, area.width, area.height);
+  const editable = !!item && !viewer;
+
   return (
-    <div className="page bg-white">
-      <div className="page-inner h-full w-full grid grid-rows-2 gap-6">
-        {[a, b].map((it) => (
-          <div key={it.id} className="relative w-full h-full">
-            <Image src={it.previewUrl} alt="photo" fill className="object-contain" unoptimized />
+    <div
+      className={`group absolute overflow-hidden ${
+        item ? (viewer ? "" : "cursor-grab") : viewer ? "" : "border border-dashed border-neutral-300 print-hide"
+      } ${isOver ? "outline-4 outline-blue-500" : ""}`}
+      style={{ ...placeIn(rect, frame), background: item && theme.border === "frame" ? "#ffffff" : undefined }}
+      draggable={editable && !isCropping && !isCaptioning}
+      onDragStart={(e) => e.dataTransfer.setData(SLOT_MIME, JSON.stringify(slot))}
+      onDragOver={(e) => {
+        if (viewer || !e.dataTransfer.types.includes(SLOT_MIME)) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        setIsOver(false);
+        const raw = e.dataTransfer.getData(SLOT_MIME);
+        if (!raw) return;
+        e.preventDefault();
+        edit({ type: "moveItem", from: JSON.parse(raw) as SlotRef, to: slot });
+      }}
+    >
+      {item && visible && (
+        <div className="absolute overflow-hidden" style={placeIn(area, rect)}>
+          {/* next/image sizes "fill" images itself, so the crop moves a wrapper */}
+          <div className="absolute" style={cropStyle(visible)}>
+            <Image
+              src={item.previewUrl}
+              alt={viewer ? (caption ?? "") : "photo"}
+              fill
+              unoptimized={!viewer}
+              loader={viewer?.loader}
+              // The viewer fits an opening (two pages) to the screen width; the crop enlarges the photo
+              sizes={viewer ? `${Math.ceil((area.width / visible.width / (2 * spec.widthMm)) * 100)}vw` : undefined}
+              draggable={false}
+              style={{ maxWidth: "none" }}
+            />
           </div>
-        ))}
-      </div>
+          {theme.border === "line" && (
+            <div
+              className="pointer-events-none absolute inset-0"
+              style={{ border: `${pageCqw(LINE_WIDTH_MM / spec.widthMm)} solid ${theme.textColor}` }}
+            />
+          )}
+        </div>
+      )}
+      {caption && theme.captionPosition !== "footer" && (
+        <CaptionLine
+          text={caption}
+          style={{
+            ...placeIn(captionRect(rect, spec, theme), rect),
+            ...(theme.captionPosition === "overlay"
+              ? { background: `rgba(0, 0, 0, ${OVERLAY_OPACITY})`, color: "#ffffff" }
+              : {}),
+          }}
+        />
+      )}
+      {item && placement && placement.quality !== "good" && (
+        <div
+          className={`print-hide absolute left-2 top-2 rounded-md px-2 py-1 text-xs ${QUALITY_STYLES[placement.quality]}`}
+          title={`Prints at ${Math.round(placement.dpi)} DPI in this slot`}
+        >
+          {placement.quality === "poor" ? "Low-res" : "Check res"} · {Math.round(placement.dpi)} DPI
+        </div>
+      )}
+      {item && inGutter && (
+        <div
+          className="print-hide absolute bottom-2 left-2 rounded-md bg-amber-500 px-2 py-1 text-xs text-white"
+          title={`The main subject is within ${BINDING_SAFE_MM} mm of the spine and may disappear into the binding`}
+        >
+          Subject in gutter
+        </div>
+      )}
+      {editable && !isCropping && !isCaptioning && (
+        <div className="print-hide absolute right-2 top-2 flex gap-1 opacity-0 group-hover:opacity-100">
+          <button className="h-7 px-2 rounded-md bg-black/70 text-xs text-white" onClick={() => setIsCaptioning(true)}>
+            Caption
+          </button>
+          <button className="h-7 px-2 rounded-md bg-black/70 text-xs text-white" onClick={() => setIsCropping(true)}>
+            Crop
+          </button>
+        </div>
+      )}
+      {item && isCaptioning && <CaptionEditor item={item} onClose={() => setIsCaptioning(false)} />}
+      {item && isCropping && (
+        <CropEditor
+          item={item}
+          slotWidth={area.width}
+          slotHeight={area.height}
+          crop={crop}
+          onApply={(next) => {
+            edit({ type: "setCrop", page: slot.page, itemId: item.id, crop: next });
+            setIsCropping(false);
+          }}
+          onCancel={() => setIsCropping(false)}
+        />
+      )}
     </div>
   );
 }
 
-function Grid2x2Page({ items }: { items: LayoutItem[] }) {
+type SlotsProps = PageOptions & { type: LayoutKind; items: PagePhoto[]; page: number; crops?: Record<string, Crop> };
+
+function Slots({ type, items, page, crops, ...options }: SlotsProps) {
+  const spec = useSpec();
+  return (
+    <>
+      {pageSlots(type, spec, options).map((rect, i) => (
+        <PhotoSlot
+          key={items[i]?.id ?? `empty-${i}`}
+          item={items[i]}
+          crop={items[i] ? slotCrop({ crops }, items[i]) : FULL_CROP}
+          rect={rect}
+          slot={{ page, slot: i }}
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * PageFrame
+ * Page background, font and text color from the theme; footer captions in the bottom margin (of the
+ * left page on spreads). Spreads are one element two pages wide, with the binding gutter marked.
+ */
+function PageFrame({
+  items = [],
+  spread,
+  children,
+}: {
+  items?: PagePhoto[];
+  spread?: boolean;
+  children: React.ReactNode;
+}) {
+  const spec = useSpec();
+  const viewer = useContext(ViewerContext);
+  const frame = frameBox(spec, spread);
+  const theme = useContext(ThemeContext);
+  const footer =
+    theme.captionPosition === "footer"
+      ? items
+          .map((it) => it.caption)
+          .filter(Boolean)
+          .join(" · ")
+      : "";
   return (
-    <div className="page bg-white">
-      <div className="page-inner h-full w-full grid grid-cols-2 grid-rows-2 gap-6">
-        {items.map((it) => (
-          <div key={it.id} className="relative w-full h-full">
-            <Image src={it.previewUrl} alt="photo" fill className="object-contain" unoptimized />
+    <FrameContext.Provider value={frame}>
+      <div
+        className={spread ? "page page-spread" : "page"}
+        style={{ background: theme.background, color: theme.textColor, fontFamily: FONT_STACKS[theme.font] }}
+      >
+        {children}
+        {footer && <CaptionLine text={footer} style={placeIn(footerRect(spec), frame)} />}
+        {spread && !viewer && (
+          <div
+            className="print-hide pointer-events-none absolute border-x border-dashed border-amber-500 bg-amber-500/10"
+            style={placeIn(
+              { x: spec.widthMm - BINDING_SAFE_MM, y: 0, width: 2 * BINDING_SAFE_MM, height: spec.heightMm },
+              frame
+            )}
+          />
+        )}
+      </div>
+    </FrameContext.Provider>
+  );
+}
+
+type PageProps = { page: number; crops?: Record<string, Crop> };
+
+type PhotoPageProps = PageProps & PageOptions & { type: LayoutKind; items: PagePhoto[] };
+
+// Any layout template; the slots come from the registry
+function PhotoPage({ type, items, page, crops, spread, fullBleed }: PhotoPageProps) {
+  return (
+    <PageFrame items={items.slice(0, LAYOUT_CAPACITY[type])} spread={spread}>
+      <Slots type={type} items={items} page={page} crops={crops} spread={spread} fullBleed={fullBleed} />
+    </PageFrame>
+  );
+}
+
+function TextPage({ text }: { text: PageText }) {
+  const spec = useSpec();
+  const box = contentBox(spec);
+  const sizes = TEXT_SIZES[text.role];
+  return (
+    <PageFrame>
+      <div
+        className="absolute flex flex-col items-center justify-center text-center"
+        style={{ ...placeIn(box, frameBox(spec)), lineHeight: TEXT_LAYOUT.lineHeight }}
+      >
+        <div className="font-bold" style={{ fontSize: cqw(sizes.heading) }}>
+          {text.heading}
+        </div>
+        {text.body && (
+          <div
+            className="whitespace-pre-line"
+            style={{
+              fontSize: cqw(sizes.body),
+              width: `${TEXT_LAYOUT.bodyWidth * 100}%`,
+              marginTop: cqw(sizes.heading * TEXT_LAYOUT.headingGap),
+            }}
+          >
+            {text.body}
           </div>
-        ))}
+        )}
       </div>
-    </div>
+      {text.proposed && (
+        <div className="print-hide absolute left-2 top-2 rounded-md bg-blue-600 px-2 py-1 text-xs text-white">Proposed</div>
+      )}
+    </PageFrame>
   );
 }
 
-export default function AlbumLayoutPreview({ items }: Props) {
-  const pages = useMemo(() => buildPages(items), [items]);
+function PlanPage({ page, index }: { page: ViewPage; index: number }) {
+  if (page.type === "text") return page.text ? <TextPage text={page.text} /> : null;
+  return (
+    <PhotoPage
+      type={page.type}
+      items={page.items}
+      page={index}
+      crops={page.crops}
+      spread={page.spread}
+      fullBleed={page.fullBleed}
+    />
+  );
+}
 
-  const onExport = useCallback(() => {
-    if (typeof window !== "undefined") window.print();
-  }, []);
+// One side of an opening in the spread view: a page, a blank page, or nothing (inside of the cover)
+function OpeningSide({ side, pages }: { side?: PhysicalPage; pages: ViewPage[] }) {
+  const theme = useContext(ThemeContext);
+  if (!side) return <div className="page print-hide invisible" />;
+  if (side.page == null) return <div className="page" style={{ background: theme.background }} />;
+  return <PlanPage page={pages[side.page]} index={side.page} />;
+}
+
+// Facing pages as bound, or a spread across both
+function Opening({ opening: [left, right], pages }: { opening: Opening; pages: ViewPage[] }) {
+  return (
+    <div className="flex">
+      {left?.half === "left" && left.page != null ? (
+        <PlanPage page={pages[left.page]} index={left.page} />
+      ) : (
+        <>
+          <OpeningSide side={left} pages={pages} />
+          <OpeningSide side={right} pages={pages} />
+        </>
+      )}
+    </div>
+  );
+}
 
+/**
+ * ReadOnlyOpening
+ * An opening of a published album, drawn by the editor's page components without editing controls or print checks.
+ */
+export function ReadOnlyOpening({
+  opening,
+  pages,
+  spec,
+  theme,
+  loader,
+}: {
+  opening: Opening;
+  pages: ViewPage[];
+  spec: PageSpec;
+  theme: AlbumTheme;
+  loader: ImageLoader;
+}) {
+  const viewer = useMemo(() => ({ loader }), [loader]);
   return (
-    <div className="print-root flex flex-col gap-4 pb-12">
-      <div className="flex items-center justify-between print-hide">
-        <div className="text-sm text-neutral-600">Pages: {pages.length}</div>
-        <button className="h-10 px-4 rounded-md bg-black text-white" onClick={onExport}>
-          Export PDF
+    <SpecContext.Provider value={spec}>
+      <ThemeContext.Provider value={theme}>
+        <ViewerContext.Provider value={viewer}>
+          <Opening opening={opening} pages={pages} />
+        </ViewerContext.Provider>
+      </ThemeContext.Provider>
+    </SpecContext.Provider>
+  );
+}
+
+function TextEditor({ text, onSave, onCancel }: { text: PageText; onSave: (text: PageText) => void; onCancel: () => void }) {
+  const [heading, setHeading] = useState(text.heading);
+  const [body, setBody] = useState(text.body ?? "");
+  return (
+    <div className="print-hide flex w-[min(90vw,900px)] flex-col gap-2 rounded-md border p-2 text-sm">
+      <input
+        value={heading}
+        onChange={(e) => setHeading(e.target.value)}
+        maxLength={200}
+        className="h-9 rounded-md border px-2 bg-transparent"
+        aria-label="Heading"
+      />
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={2000}
+        rows={3}
+        className="rounded-md border px-2 py-1 bg-transparent"
+        aria-label="Text"
+      />
+      <div className="flex justify-end gap-2">
+        <button className="h-8 px-3 rounded-md border" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          className="h-8 px-3 rounded-md bg-black text-white disabled:opacity-50"
+          disabled={!heading.trim()}
+          onClick={() => onSave({ role: text.role, heading: heading.trim(), body: body.trim() || undefined })}
+        >
+          Save
         </button>
       </div>
+    </div>
+  );
+}
+
+type TextActions = {
+  isEditing: boolean;
+  isRewriting: boolean;
+  onEdit: () => void;
+  onRewrite: () => void;
+};
 
-      <div className="flex flex-col items-center gap-8">
-        {pages.map((p, idx) => {
-          switch (p.type) {
-            case "single":
-              return <SinglePage key={idx} item={p.items[0]} />;
-            case "twoColumns":
-              return <TwoColumnsPage key={idx} items={p.items} />;
-            case "twoRows":
-              return <TwoRowsPage key={idx} items={p.items} />;
-            case "grid2x2":
-              return <Grid2x2Page key={idx} items={p.items} />;
-            default:
-              return null;
-          }
-        })}
+function PageToolbar({
+  page,
+  index,
+  count,
+  textActions,
+}: {
+  page: PreviewPage;
+  index: number;
+  count: number;
+  textActions?: TextActions;
+}) {
+  const edit = useContext(EditContext);
+  const place = pagePlace(page.items);
+  const { pinned, text } = page;
+  return (
+    <div className="print-hide flex w-[min(90vw,900px)] items-center gap-2 text-xs text-neutral-600">
+      <span
+        className="cursor-grab select-none px-1"
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData(PAGE_MIME, String(index))}
+        title="Drag to reorder"
+      >
+        ⠿
+      </span>
+      <span>Page {index + 1}</span>
+      {place && <span className="truncate text-neutral-500">· {place}</span>}
+      {text && textActions ? (
+        <>
+          <span className="text-neutral-500">· {TEXT_ROLE_LABELS[text.role]}</span>
+          {text.proposed && (
+            <button
+              className="h-7 px-2 rounded-md bg-black text-white"
+              onClick={() => edit({ type: "setText", page: index, text: { ...text, proposed: undefined } })}
+            >
+              Accept
+            </button>
+          )}
+          <button className="h-7 px-2 rounded-md border" disabled={textActions.isEditing} onClick={textActions.onEdit}>
+            Edit
+          </button>
+          <button
+            className="h-7 px-2 rounded-md border disabled:opacity-40"
+            disabled={textActions.isRewriting}
+            onClick={textActions.onRewrite}
+          >
+            {textActions.isRewriting ? "Writing..." : "Regenerate"}
+          </button>
+          <button className="h-7 px-2 rounded-md border text-red-600" onClick={() => edit({ type: "removePage", page: index })}>
+            Delete
+          </button>
+        </>
+      ) : (
+        <>
+          <select
+            className="h-7 rounded-md border px-1 bg-transparent"
+            value={page.type}
+            onChange={(e) => edit({ type: "setLayout", page: index, layout: e.target.value as LayoutKind })}
+          >
+            {LAYOUT_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {LAYOUT_TEMPLATES[kind].label} ({LAYOUT_CAPACITY[kind]})
+              </option>
+            ))}
+          </select>
+          <button
+            className={`h-7 px-2 rounded-md border ${pinned ? "bg-black text-white border-black" : ""}`}
+            onClick={() => edit({ type: "togglePin", page: index })}
+            title="Pinned pages are kept when the layout is rebuilt"
+          >
+            {pinned ? "Pinned" : "Pin"}
+          </button>
+          <button
+            className={`h-7 px-2 rounded-md border ${page.spread ? "bg-black text-white border-black" : ""}`}
+            onClick={() => edit({ type: "toggleSpread", page: index })}
+            title="Lay this page out across two facing pages"
+          >
+            Spread
+          </button>
+          <button
+            className={`h-7 px-2 rounded-md border ${page.fullBleed ? "bg-black text-white border-black" : ""}`}
+            onClick={() => edit({ type: "toggleBleed", page: index })}
+            title="Run the photos to the page edge, into the bleed"
+          >
+            Full bleed
+          </button>
+        </>
+      )}
+      <div className="ml-auto flex gap-1">
+        <button
+          className="h-7 px-2 rounded-md border disabled:opacity-40"
+          disabled={index === 0}
+          onClick={() => edit({ type: "movePage", from: index, to: index - 1 })}
+        >
+          ↑
+        </button>
+        <button
+          className="h-7 px-2 rounded-md border disabled:opacity-40"
+          disabled={index === count - 1}
+          onClick={() => edit({ type: "movePage", from: index, to: index + 1 })}
+        >
+          ↓
+        </button>
       </div>
     </div>
   );
 }
+
+export default function AlbumLayoutPreview({
+  items,
+  editor,
+  spec,
+  theme,
+  onCaptionChange,
+  albumName,
+  provider,
+  vendor,
+  albumId,
+}: Props) {
+  const byId = useMemo(() => new Map(items.map((it) => [it.id, it])), [items]);
+  const pages = useMemo<PreviewPage[]>(
+    () =>
+      editor.pages.map((p) => ({
+        ...p,
+        items: p.itemIds.map((id) => byId.get(id)).filter((it): it is LayoutItem => !!it),
+      })),
+    [editor.pages, byId]
+  );
+
+  const placements = useMemo(
+    () => preflight(editor.pages, items, spec, slotCrop, theme),
+    [editor.pages, items, spec, theme]
+  );
+  const quality = useMemo(() => new Map(placements.map((p) => [`${p.page}:${p.slot}`, p])), [placements]);
+  const warnings = useMemo(
+    () => gutterWarnings(editor.pages, items, spec, slotCrop, theme),
+    [editor.pages, items, spec, theme]
+  );
+  const gutter = useMemo(() => new Set(warnings.map((w) => `${w.page}:${w.slot}`)), [warnings]);
+
+  // Pages as edited, or facing pages as they will be bound
+  const [view, setView] = useState<"pages" | "spreads">("pages");
+  const physical = useMemo(() => physicalPages(editor.pages), [editor.pages]);
+  const sheets = useMemo(() => openings(physical), [physical]);
+
+  // Vendor checks; padding defaults to the vendor's choice until picked
+  const [paddingChoice, setPaddingChoice] = useState<Padding>();
+  const padding = paddingChoice ?? vendor?.padding ?? "blank";
+  const vendorIssues = useMemo(
+    () => (vendor ? checkVendor(vendor, spec, physical.length, placements) : []),
+    [vendor, spec, physical, placements]
+  );
+  const paddedPages = vendor ? paddedPageCount(vendor, physical.length) : undefined;
+  const blocked = vendorIssues.some((i) => i.severity === "error");
+
+  // Pages as sent for export and publishing, with the photo files they need
+  const requestPages = useMemo<PublishRequest["pages"]>(
+    () =>
+      pages.map((p) =>
+        p.type === "text"
+          ? { type: "text", text: { role: p.text!.role, heading: p.text!.heading, body: p.text!.body } }
+          : {
+              type: p.type,
+              items: p.items.map((it) => ({ id: it.id, crop: slotCrop(p, it), caption: it.caption })),
+              spread: p.spread,
+              fullBleed: p.fullBleed,
+            }
+      ),
+    [pages]
+  );
+  const requestForm = useCallback(
+    async (manifest: PdfRequest | PublishRequest) => {
+      const form = new FormData();
+      form.set("manifest", JSON.stringify(manifest));
+      // Enhanced photos are rendered at full resolution, one at a time to bound memory
+      for (const it of pages.flatMap((p) => p.items)) {
+        form.set(`file:${it.id}`, await printFile(it.file, it.adjustments));
+      }
+      return form;
+    },
+    [pages]
+  );
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const onExport = useCallback(async () => {
+    const poor = placements.filter((p) => p.quality === "poor").length;
+    if (poor > 0 && !window.confirm(`${poor} photo(s) will print below acceptable resolution. Export anyway?`)) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const manifest: PdfRequest = { spec, theme, pages: [...requestPages] };
+      if (vendor && paddedPages !== undefined) {
+        manifest.pages.push(...paddingPages(padding, paddedPages - physical.length));
+        // The cover shows the first photo of the album
+        const first = pages.find((p) => p.type !== "text" && p.items.length > 0);
+        manifest.print = {
+          vendor: vendor.id,
+          title: albumName || "Photo album",
+          createdAt: new Date().toISOString(),
+          cover: first && { id: first.items[0].id, crop: slotCrop(first, first.items[0]) },
+        };
+      }
+      const res = await fetch("/api/pdf", { method: "POST", body: await requestForm(manifest) });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error ?? `Export failed (${res.status})`);
+      }
+      downloadBlob(await res.blob(), manifest.print ? "album-print.zip" : "album.pdf");
+    } catch (err: unknown) {
+      setExportError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [pages, requestPages, requestForm, spec, theme, placements, vendor, paddedPages, padding, physical, albumName]);
+
+  // Web viewer copy at /album/[albumId]; publishing again replaces it
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const [publishedUrl, setPublishedUrl] = useState<string | null>(null);
+
+  const onPublish = useCallback(async () => {
+    if (!albumId) return;
+    setIsPublishing(true);
+    setPublishError(null);
+    try {
+      const manifest: PublishRequest = { name: albumName || "Photo album", spec, theme, pages: requestPages };
+      // The key the first publish issued; without it the server refuses to replace the album
+      const keyItem = `publish-key:${albumId}`;
+      const key = localStorage.getItem(keyItem);
+      const res = await fetch(`/api/albums/${albumId}`, {
+        method: "PUT",
+        headers: key ? { [PUBLISH_KEY_HEADER]: key } : undefined,
+        body: await requestForm(manifest),
+      });
+      const body = (await res.json().catch(() => null)) as { url?: string; key?: string; error?: string } | null;
+      if (!res.ok || !body?.url) throw new Error(body?.error ?? `Publishing failed (${res.status})`);
+      if (body.key) localStorage.setItem(keyItem, body.key);
+      setPublishedUrl(body.url);
+    } catch (err: unknown) {
+      setPublishError(err instanceof Error ? err.message : "Publishing failed");
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [albumId, albumName, spec, theme, requestPages, requestForm]);
+
+  // Title and chapter pages are written from the photo pages' captions, tags, times and places
+  const photoPages = useMemo(() => pages.filter((p) => p.type !== "text"), [pages]);
+  const digest = useMemo<PageDigest[]>(
+    () =>
+      photoPages.map((p) => ({
+        photos: p.items.map((it) => ({
+          summary: it.analysis?.summary,
+          tags: it.analysis?.tags,
+          time: it.analysis?.time,
+          place: it.analysis?.place?.label,
+        })),
+      })),
+    [photoPages]
+  );
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [rewriting, setRewriting] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [textError, setTextError] = useState<string | null>(null);
+  // Regenerate count per page, so the offline provider cycles through its variants
+  const attempts = useRef(new Map<string, number>());
+
+  const onSuggest = useCallback(async () => {
+    setIsSuggesting(true);
+    setTextError(null);
+    const res = await suggestTextPages({ pages: digest, albumName, provider }).catch((err: unknown) => ({
+      ok: false as const,
+      error: err instanceof Error ? err.message : "Failed to suggest text pages",
+    }));
+    setIsSuggesting(false);
+    if (!res.ok) {
+      setTextError(res.error);
+      return;
+    }
+    editor.edit({
+      type: "proposeText",
+      pages: res.pages.map(({ beforePage, text }) => ({
+        beforeId: beforePage == null ? undefined : photoPages[beforePage]?.id,
+        text,
+      })),
+    });
+  }, [digest, albumName, provider, photoPages, editor]);
+
+  const onRewrite = useCallback(
+    async (index: number) => {
+      const page = pages[index];
+      if (!page?.text) return;
+      const attempt = (attempts.current.get(page.id) ?? 0) + 1;
+      attempts.current.set(page.id, attempt);
+      setRewriting(page.id);
+      setTextError(null);
+      const res = await rewriteTextPage({
+        pages: digest,
+        albumName,
+        provider,
+        role: page.text.role,
+        // Index of the photo page this page opens
+        beforePage: pages.slice(0, index).filter((p) => p.type !== "text").length,
+        current: page.text,
+        attempt,
+      }).catch((err: unknown) => ({
+        ok: false as const,
+        error: err instanceof Error ? err.message : "Failed to rewrite page",
+      }));
+      setRewriting(null);
+      if (!res.ok) {
+        setTextError(res.error);
+        return;
+      }
+      const { proposed } = page.text;
+      // The page may have moved, or been removed, while the request was running
+      editor.edit((current) => {
+        const at = current.findIndex((p) => p.id === page.id);
+        return at < 0 ? undefined : { type: "setText", page: at, text: { ...res.text, proposed } };
+      });
+    },
+    [pages, digest, albumName, provider, editor]
+  );
+
+  // The model plans all photos that aren't on pinned pages, like "Rebuild unpinned" does heuristically
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+
+  const onPlan = useCallback(async () => {
+    const pinned = new Set(editor.pages.filter((p) => p.pinned).flatMap((p) => p.itemIds));
+    const free = sortChronologically(items.filter((it) => !pinned.has(it.id)));
+    const photos: PhotoDigest[] = free.map((it) => ({
+      id: it.id,
+      width: it.width,
+      height: it.height,
+      summary: it.analysis?.summary,
+      tags: it.analysis?.tags,
+      time: it.analysis?.time,
+      place: it.analysis?.place?.label,
+      layout: it.analysis?.layout,
+      heroOK: effectiveDpi(it.width, it.height, FULL_CROP, spec.widthMm, spec.heightMm) >= GOOD_DPI,
+    }));
+    // Automatic layout, as the offline provider's plan and for the target page count
+    const draft = buildPages(free).map((p) => ({
+      type: p.type,
+      itemIds: p.items.map((it) => it.id),
+      spread: p.spread,
+    }));
+    setIsPlanning(true);
+    setPlanError(null);
+    const res = await planAlbum({ photos, format: spec, targetPages: draft.length, draft, albumName, provider }).catch(
+      (err: unknown) => ({ ok: false as const, error: err instanceof Error ? err.message : "Failed to plan the album" })
+    );
+    setIsPlanning(false);
+    if (!res.ok) {
+      setPlanError(res.error);
+      return;
+    }
+    // Planning can take a while: the plan goes onto the pages as they are now, so edits made meanwhile stay
+    // (photos pinned since keep their page, see plannedPages)
+    editor.edit({ type: "plan", pages: res.pages });
+  }, [items, spec, albumName, provider, editor]);
+
+  const onPrint = useCallback(() => {
+    if (typeof window !== "undefined") window.print();
+  }, []);
+
+  return (
+    <SpecContext.Provider value={spec}>
+      <EditContext.Provider value={editor.edit}>
+        <ThemeContext.Provider value={theme}>
+          <CaptionContext.Provider value={onCaptionChange}>
+            <QualityContext.Provider value={quality}>
+              <GutterContext.Provider value={gutter}>
+                {/* Page size can't come from a CSS variable in @page, so the print rules are rendered per format */}
+                <style>{`@media print {
+  @page { size: ${spec.widthMm}mm ${spec.heightMm}mm; margin: 0; }
+  @page spread { size: ${2 * spec.widthMm}mm ${spec.heightMm}mm; margin: 0; }
+  .page { width: ${spec.widthMm}mm !important; height: ${spec.heightMm}mm !important; }
+  .page.page-spread { page: spread; width: ${2 * spec.widthMm}mm !important; }
+}`}</style>
+                <div
+                  className="print-root flex flex-col gap-4 pb-12"
+                  style={
+                    {
+                      "--page-aspect": `${spec.widthMm} / ${spec.heightMm}`,
+                      "--spread-aspect": `${2 * spec.widthMm} / ${spec.heightMm}`,
+                    } as React.CSSProperties
+                  }
+                >
+                  <div className="flex items-center justify-between print-hide">
+                    <div className="flex items-center gap-2 text-sm text-neutral-600">
+                      <span>Pages: {pages.length}</span>
+                      <button className="h-9 px-3 rounded-md border disabled:opacity-40" disabled={!editor.canUndo} onClick={editor.undo}>
+                        Undo
+                      </button>
+                      <button className="h-9 px-3 rounded-md border disabled:opacity-40" disabled={!editor.canRedo} onClick={editor.redo}>
+                        Redo
+                      </button>
+                      <button
+                        className="h-9 px-3 rounded-md border"
+                        onClick={() => editor.edit({ type: "rebuild" })}
+                        title="Lay out all unpinned pages again"
+                      >
+                        Rebuild unpinned
+                      </button>
+                      <button
+                        className="h-9 px-3 rounded-md border disabled:opacity-40"
+                        disabled={isPlanning || items.length === 0}
+                        onClick={onPlan}
+                        title="Let the model decide which photos share a page for all unpinned pages"
+                      >
+                        {isPlanning ? "Planning..." : "Plan with AI"}
+                      </button>
+                      <button
+                        className="h-9 px-3 rounded-md border disabled:opacity-40"
+                        disabled={isSuggesting || photoPages.length === 0}
+                        onClick={onSuggest}
+                        title="Propose a title page and chapter pages from the photo captions, times and places"
+                      >
+                        {isSuggesting ? "Writing..." : "Suggest title & chapters"}
+                      </button>
+                      {editor.isManual && (
+                        <button className="h-9 px-3 rounded-md border" onClick={editor.reset} title="Discard all manual edits">
+                          Reset
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        className="h-10 rounded-md border px-2 text-sm bg-transparent"
+                        value={view}
+                        onChange={(e) => setView(e.target.value as "pages" | "spreads")}
+                        aria-label="Preview"
+                      >
+                        <option value="pages">Pages</option>
+                        <option value="spreads">Facing pages</option>
+                      </select>
+                      <button className="h-10 px-3 rounded-md border" onClick={onPrint}>
+                        Print
+                      </button>
+                      <button
+                        className="h-10 px-3 rounded-md border disabled:opacity-50"
+                        disabled={!albumId || isPublishing || pages.length === 0}
+                        onClick={onPublish}
+                        title="Publish a read-only copy to the web viewer"
+                      >
+                        {isPublishing ? "Publishing..." : "Publish"}
+                      </button>
+                      <button
+                        className="h-10 px-4 rounded-md bg-black text-white disabled:opacity-50"
+                        disabled={isExporting || blocked}
+                        onClick={onExport}
+                      >
+                        {isExporting ? "Exporting..." : vendor ? "Export print files" : "Export PDF"}
+                      </button>
+                    </div>
+                  </div>
+                  {exportError && <div className="print-hide text-sm text-red-600">{exportError}</div>}
+                  {publishError && <div className="print-hide text-sm text-red-600">{publishError}</div>}
+                  {publishedUrl && (
+                    <div className="print-hide text-sm">
+                      Published:{" "}
+                      <a className="text-blue-600 hover:underline" href={publishedUrl} target="_blank" rel="noreferrer">
+                        {publishedUrl}
+                      </a>
+                    </div>
+                  )}
+                  {textError && <div className="print-hide text-sm text-red-600">{textError}</div>}
+                  {planError && (
+                    <div className="print-hide text-sm text-red-600">{planError} (pages were not changed)</div>
+                  )}
+                  <PreflightReport placements={placements} items={items} />
+                  {vendor && (
+                    <VendorReport
+                      profile={vendor}
+                      issues={vendorIssues}
+                      pages={paddedPages}
+                      spineMm={paddedPages !== undefined ? spineWidthMm(vendor, paddedPages) : undefined}
+                      padding={padding}
+                      onPaddingChange={setPaddingChoice}
+                    />
+                  )}
+                  {warnings.length > 0 && (
+                    <div className="print-hide rounded-md border border-amber-500 px-3 py-2 text-sm text-amber-700">
+                      {warnings.length} photo(s) on spreads have their subject within {BINDING_SAFE_MM} mm of the spine,
+                      where it may disappear into the binding. Adjust the crop or the layout.
+                    </div>
+                  )}
+
+                  {view === "spreads" ? (
+                    <div className="spread-view flex flex-col items-center gap-8">
+                      {sheets.map((opening, i) => (
+                        <div key={i} className="flex flex-col items-center gap-2">
+                          <Opening opening={opening} pages={pages} />
+                          <div className="print-hide text-xs text-neutral-500">{openingLabel(i, opening)}</div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center gap-8">
+                      {pages.map((p, idx) => (
+                        <div
+                          key={p.id}
+                          className="flex flex-col items-center gap-2"
+                          onDragOver={(e) => {
+                            if (e.dataTransfer.types.includes(PAGE_MIME)) e.preventDefault();
+                          }}
+                          onDrop={(e) => {
+                            const raw = e.dataTransfer.getData(PAGE_MIME);
+                            if (!raw) return;
+                            e.preventDefault();
+                            editor.edit({ type: "movePage", from: Number(raw), to: idx });
+                          }}
+                        >
+                          <PageToolbar
+                            page={p}
+                            index={idx}
+                            count={pages.length}
+                            textActions={
+                              p.text && {
+                                isEditing: editingId === p.id,
+                                isRewriting: rewriting === p.id,
+                                onEdit: () => setEditingId(p.id),
+                                onRewrite: () => onRewrite(idx),
+                              }
+                            }
+                          />
+                          {p.text && editingId === p.id && (
+                            <TextEditor
+                              text={p.text}
+                              onSave={(text) => {
+                                editor.edit({ type: "setText", page: idx, text });
+                                setEditingId(null);
+                              }}
+                              onCancel={() => setEditingId(null)}
+                            />
+                          )}
+                          <PlanPage page={p} index={idx} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </GutterContext.Provider>
+            </QualityContext.Provider>
+          </CaptionContext.Provider>
+        </ThemeContext.Provider>
+      </EditContext.Provider>
+    </SpecContext.Provider>
+  );
+}
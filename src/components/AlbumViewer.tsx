@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ImageLoader } from "next/image";
+import { ReadOnlyOpening, type ViewPage } from "@/components/AlbumLayoutPreview";
+import { FULL_CROP } from "@/hooks/crop";
+import { openingLabel, openings, physicalPages } from "@/hooks/spreads";
+import { downloadBlob } from "@/hooks/utils";
+import {
+  staticAlbum,
+  staticFolderName,
+  SWIPE_PX,
+  viewerImageName,
+  viewerWidth,
+  type PublishedAlbum,
+} from "@/hooks/viewer";
+
+type Props = {
+  album: PublishedAlbum;
+  // URL prefix of the published images
+  imageBase: string;
+};
+
+/**
+ * AlbumViewer
+ * A published album one opening at a time, turned with the buttons, the arrow keys or a swipe. The markup
+ * doubles as the static copy, whose script (see viewer.ts) turns the pages the same way.
+ */
+export default function AlbumViewer({ album, imageBase }: Props) {
+  const pages = useMemo<ViewPage[]>(
+    () =>
+      album.pages.map((p, i) =>
+        p.type === "text"
+          ? { id: `page-${i}`, type: "text", itemIds: [], text: p.text, items: [] }
+          : {
+              id: `page-${i}`,
+              type: p.type,
+              itemIds: p.items.map((it) => it.id),
+              crops: Object.fromEntries(p.items.map((it) => [it.id, it.crop ?? FULL_CROP])),
+              spread: p.spread,
+              fullBleed: p.fullBleed,
+              items: p.items.flatMap((it) => {
+                const photo = album.photos[it.id];
+                if (!photo) return [];
+                const { image, width, height } = photo;
+                return [{ id: it.id, previewUrl: image, width, height, caption: it.caption }];
+              }),
+            }
+      ),
+    [album]
+  );
+  const physical = useMemo(() => physicalPages(pages), [pages]);
+  const sheets = useMemo(() => openings(physical), [physical]);
+  const loader = useCallback<ImageLoader>(
+    ({ src, width }) => imageBase + viewerImageName(src, viewerWidth(width)),
+    [imageBase]
+  );
+
+  const [current, setCurrent] = useState(0);
+  const show = useCallback((i: number) => setCurrent(Math.max(0, Math.min(sheets.length - 1, i))), [sheets]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") show(current - 1);
+      if (e.key === "ArrowRight") show(current + 1);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [current, show]);
+
+  const startX = useRef<number | null>(null);
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (startX.current === null) return;
+    const dx = e.clientX - startX.current;
+    startX.current = null;
+    if (Math.abs(dx) > SWIPE_PX) show(current + (dx < 0 ? 1 : -1));
+  };
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const onSaveStatic = useCallback(async () => {
+    if (!rootRef.current) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      downloadBlob(await staticAlbum(rootRef.current, album, imageBase), `${staticFolderName(album)}.zip`);
+    } catch (err: unknown) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save the album");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [album, imageBase]);
+
+  const { spec, theme } = album;
+  const label = (i: number) => `${openingLabel(i, sheets[i])} of ${physical.length}`;
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <div
+        ref={rootRef}
+        className="album-viewer flex flex-1 flex-col items-center gap-4 p-4"
+        style={
+          {
+            "--page-aspect": `${spec.widthMm} / ${spec.heightMm}`,
+            "--spread-aspect": `${2 * spec.widthMm} / ${spec.heightMm}`,
+            "--page-ratio": spec.widthMm / spec.heightMm,
+          } as React.CSSProperties
+        }
+      >
+        <header className="text-center">
+          <h1 className="text-xl font-semibold">{album.name}</h1>
+          <p className="text-xs text-neutral-500" data-viewer-counter="">
+            {label(current)}
+          </p>
+        </header>
+        <div
+          className="flex flex-1 touch-pan-y select-none items-center justify-center"
+          data-viewer-stage=""
+          onPointerDown={(e) => (startX.current = e.clientX)}
+          onPointerUp={onPointerUp}
+        >
+          {sheets.map((opening, i) => (
+            <div key={i} className="viewer-sheet" data-sheet={i} data-label={label(i)} hidden={i !== current}>
+              <ReadOnlyOpening opening={opening} pages={pages} spec={spec} theme={theme} loader={loader} />
+            </div>
+          ))}
+        </div>
+        <nav className="flex items-center gap-3">
+          <button
+            className="h-10 px-4 rounded-md border disabled:opacity-40"
+            data-viewer-prev=""
+            disabled={current === 0}
+            onClick={() => show(current - 1)}
+          >
+            ← Previous
+          </button>
+          <button
+            className="h-10 px-4 rounded-md border disabled:opacity-40"
+            data-viewer-next=""
+            disabled={current === sheets.length - 1}
+            onClick={() => show(current + 1)}
+          >
+            Next →
+          </button>
+        </nav>
+      </div>
+      <footer className="flex flex-col items-center gap-1 pb-4 text-xs text-neutral-500">
+        <button className="hover:underline disabled:opacity-50" disabled={isSaving} onClick={onSaveStatic}>
+          {isSaving ? "Saving..." : "Save for offline viewing"}
+        </button>
+        {saveError && <span className="text-red-600">{saveError}</span>}
+      </footer>
+    </div>
+  );
+}
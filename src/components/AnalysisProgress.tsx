@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import type { QueueProgress } from "@/hooks/queue";
+
+type Props = {
+  progress: QueueProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+};
+
+function formatEta(ms: number) {
+  const s = Math.ceil(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return m < 60 ? `${m}m ${s % 60}s` : `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+export default function AnalysisProgress({ progress, onPause, onResume, onCancel }: Props) {
+  const { status, total, done, failed, active, etaMs } = progress;
+  if (status === "idle" || total === 0) return null;
+  const finished = done + failed;
+
+  return (
+    <div className="mt-3 space-y-1 text-xs text-neutral-600 dark:text-neutral-300">
+      <div className="h-2 w-full overflow-hidden rounded-full bg-neutral-200 dark:bg-neutral-800">
+        <div className="h-full bg-black dark:bg-white transition-all" style={{ width: `${(finished / total) * 100}%` }} />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {finished}/{total}
+          {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+          {status === "paused" ? " · paused" : ` · ${active} running`}
+          {etaMs != null && status === "running" && ` · ~${formatEta(etaMs)} left`}
+        </span>
+        <span className="flex gap-2">
+          {status === "paused" ? (
+            <button className="text-blue-600 hover:underline" onClick={onResume}>
+              Resume
+            </button>
+          ) : (
+            <button className="text-blue-600 hover:underline" onClick={onPause}>
+              Pause
+            </button>
+          )}
+          <button className="text-red-600 hover:underline" onClick={onCancel}>
+            Cancel
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
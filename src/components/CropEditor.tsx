@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import Image from "next/image";
+import { adjustCrop, coverCrop, FULL_CROP, type Crop, type CropHandle } from "@/hooks/crop";
+import type { LayoutItem } from "@/hooks/layout";
+
+type Props = {
+  item: Pick<LayoutItem, "previewUrl" | "width" | "height">;
+  // Slot size in mm; only its aspect ratio matters here
+  slotWidth: number;
+  slotHeight: number;
+  crop: Crop;
+  onApply: (crop: Crop | undefined) => void;
+  onCancel: () => void;
+};
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: "left", className: "left-0 top-1/2 -translate-x-1/2 -translate-y-1/2 h-8 w-2 cursor-ew-resize" },
+  { handle: "right", className: "right-0 top-1/2 translate-x-1/2 -translate-y-1/2 h-8 w-2 cursor-ew-resize" },
+  { handle: "top", className: "top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-2 cursor-ns-resize" },
+  { handle: "bottom", className: "bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 w-8 h-2 cursor-ns-resize" },
+];
+
+const box = (c: Crop) => ({
+  left: `${c.x * 100}%`,
+  top: `${c.y * 100}%`,
+  width: `${c.width * 100}%`,
+  height: `${c.height * 100}%`,
+});
+
+/**
+ * CropEditor
+ * Shows the whole image inside a slot with the crop rectangle on top: drag an edge handle to crop,
+ * drag inside the rectangle to pan. The dashed outline is what the slot will actually show.
+ */
+export default function CropEditor({ item, slotWidth, slotHeight, crop, onApply, onCancel }: Props) {
+  const [draft, setDraft] = useState(crop);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ handle: CropHandle; x: number; y: number; crop: Crop } | null>(null);
+
+  // Fit the full image into the slot (object-fit: contain)
+  const imageAspect = item.width / item.height;
+  const slotAspect = slotWidth / slotHeight;
+  const frame =
+    imageAspect > slotAspect
+      ? { width: "100%", height: `${(slotAspect / imageAspect) * 100}%` }
+      : { width: `${(imageAspect / slotAspect) * 100}%`, height: "100%" };
+  const visible = coverCrop(draft, item.width, item.height, slotWidth, slotHeight);
+
+  const startDrag = (handle: CropHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { handle, x: e.clientX, y: e.clientY, crop: draft };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!d || !rect) return;
+    setDraft(adjustCrop(d.crop, d.handle, (e.clientX - d.x) / rect.width, (e.clientY - d.y) / rect.height));
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  return (
+    <div className="print-hide absolute inset-0 z-10 flex flex-col bg-neutral-900/90" onDragStart={(e) => e.preventDefault()}>
+      <div className="relative flex-1 min-h-0 grid place-items-center overflow-hidden p-2">
+        <div ref={frameRef} className="relative" style={frame}>
+          <Image src={item.previewUrl} alt="photo" fill unoptimized draggable={false} className="object-fill" />
+          <div
+            className="absolute border-2 border-white cursor-move"
+            style={{ ...box(draft), boxShadow: "0 0 0 9999px rgba(0,0,0,0.55)" }}
+            onPointerDown={startDrag("move")}
+            onPointerMove={onPointerMove}
+            onPointerUp={endDrag}
+          >
+            {HANDLES.map(({ handle, className }) => (
+              <div
+                key={handle}
+                className={`absolute rounded-sm bg-white ${className}`}
+                onPointerDown={startDrag(handle)}
+                onPointerMove={onPointerMove}
+                onPointerUp={endDrag}
+              />
+            ))}
+          </div>
+          <div className="pointer-events-none absolute border border-dashed border-yellow-300" style={box(visible)} />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-1 p-1 text-xs">
+        <button className="h-7 px-2 rounded-md bg-white text-black" onClick={() => onApply(draft)}>
+          Apply
+        </button>
+        <button className="h-7 px-2 rounded-md border border-white/50 text-white" onClick={() => onApply(undefined)}>
+          Reset to AI
+        </button>
+        <button className="h-7 px-2 rounded-md border border-white/50 text-white" onClick={() => setDraft(FULL_CROP)}>
+          Full image
+        </button>
+        <button className="h-7 px-2 rounded-md text-white/80" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
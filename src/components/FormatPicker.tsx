@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from "react";
+import { ALBUM_FORMATS, findFormat, MAX_BLEED_MM, MAX_PAGE_MM, specProblem, type PageSpec } from "@/hooks/spec";
+
+type Props = {
+  spec: PageSpec;
+  onChange: (spec: PageSpec) => void;
+};
+
+const MIN_PAGE_MM = 50;
+
+// Editing any value turns a preset into a custom format. Margin and gutter are bounded by specProblem.
+const FIELDS: { key: keyof Omit<PageSpec, "cropMarks">; label: string; min: number; max?: number }[] = [
+  { key: "widthMm", label: "Width", min: MIN_PAGE_MM, max: MAX_PAGE_MM },
+  { key: "heightMm", label: "Height", min: MIN_PAGE_MM, max: MAX_PAGE_MM },
+  { key: "marginMm", label: "Margin", min: 0 },
+  { key: "gutterMm", label: "Gutter", min: 0 },
+  { key: "bleedMm", label: "Bleed", min: 0, max: MAX_BLEED_MM },
+];
+
+export default function FormatPicker({ spec, onChange }: Props) {
+  const preset = findFormat(spec);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold">Format</h2>
+      <select
+        className="h-9 w-full rounded-md border px-2 text-sm bg-transparent"
+        value={preset?.id ?? "custom"}
+        onChange={(e) => {
+          const next = ALBUM_FORMATS.find((f) => f.id === e.target.value);
+          if (!next) return;
+          setProblem(null);
+          onChange(next.spec);
+        }}
+      >
+        {ALBUM_FORMATS.map((f) => (
+          <option key={f.id} value={f.id}>
+            {f.label}
+          </option>
+        ))}
+        {!preset && <option value="custom">Custom</option>}
+      </select>
+      <div className="grid grid-cols-3 gap-2">
+        {FIELDS.map(({ key, label, min, max }) => (
+          <label key={key} className="text-[10px] text-neutral-500">
+            {label} (mm)
+            <input
+              type="number"
+              min={min}
+              max={max}
+              step={1}
+              value={spec[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (!Number.isFinite(value) || value < min || (max !== undefined && value > max)) return;
+                const next = { ...spec, [key]: value };
+                const issue = specProblem(next);
+                setProblem(issue ?? null);
+                if (!issue) onChange(next);
+              }}
+              className="h-8 w-full rounded-md border px-1 text-sm text-foreground bg-transparent"
+            />
+          </label>
+        ))}
+        <label className="flex items-end gap-1 text-[10px] text-neutral-500">
+          <input
+            type="checkbox"
+            checked={spec.cropMarks}
+            onChange={(e) => onChange({ ...spec, cropMarks: e.target.checked })}
+          />
+          Crop marks
+        </label>
+      </div>
+      {problem && <div className="text-sm text-red-600">{problem}</div>}
+    </div>
+  );
+}
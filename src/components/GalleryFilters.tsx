@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState } from "react";
+import { EMPTY_FILTER, isFiltered, type Facet, type GalleryFacets, type GalleryFilter } from "@/hooks/gallery";
+
+type Props = {
+  filter: GalleryFilter;
+  onChange: (filter: GalleryFilter) => void;
+  facets: GalleryFacets;
+  shown: number;
+  total: number;
+};
+
+// Facet values offered before "more"
+const TOP_FACETS = 12;
+
+const INCLUSION: { id: GalleryFilter["inclusion"]; label: string }[] = [
+  { id: "all", label: "All photos" },
+  { id: "included", label: "In the layout" },
+  { id: "excluded", label: "Excluded" },
+];
+
+const inputClass = "h-8 rounded-md border px-1 text-sm text-foreground bg-transparent";
+
+function toggled(values: string[], value: string) {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function FacetChips({
+  facets,
+  selected,
+  onToggle,
+}: {
+  facets: Facet[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  // Selected values stay visible when the list is collapsed
+  const visible = expanded ? facets : facets.filter((f, i) => i < TOP_FACETS || selected.includes(f.value));
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {visible.map((f) => (
+        <button
+          key={f.value}
+          onClick={() => onToggle(f.value)}
+          className={`rounded-full border px-2 py-0.5 text-xs ${
+            selected.includes(f.value) ? "border-black bg-black text-white" : "text-neutral-600 dark:text-neutral-300"
+          }`}
+        >
+          {f.value} <span className="opacity-60">{f.count}</span>
+        </button>
+      ))}
+      {facets.length > visible.length && (
+        <button className="text-xs text-blue-600 hover:underline" onClick={() => setExpanded(true)}>
+          +{facets.length - visible.length} more
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * GalleryFilters
+ * Search, tag/object facets and date, camera, rating and layout filters for the gallery.
+ */
+export default function GalleryFilters({ filter, onChange, facets, shown, total }: Props) {
+  const set = (patch: Partial<GalleryFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="mb-4 space-y-2 rounded-md border px-3 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => set({ query: e.target.value })}
+          placeholder="Search captions, tags, objects, places…"
+          className={`${inputClass} min-w-48 flex-1 px-2`}
+          aria-label="Search photos"
+        />
+        <label className="flex items-center gap-1 text-xs text-neutral-500">
+          From
+          <input
+            type="date"
+            value={filter.from ?? ""}
+            onChange={(e) => set({ from: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-neutral-500">
+          to
+          <input
+            type="date"
+            value={filter.to ?? ""}
+            onChange={(e) => set({ to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+        {facets.cameras.length > 0 && (
+          <select
+            value={filter.camera ?? ""}
+            onChange={(e) => set({ camera: e.target.value || undefined })}
+            className={inputClass}
+            aria-label="Camera"
+          >
+            <option value="">Any camera</option>
+            {facets.cameras.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.value} ({c.count})
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filter.minRating}
+          onChange={(e) => set({ minRating: Number(e.target.value) })}
+          className={inputClass}
+          aria-label="Minimum rating"
+        >
+          <option value={0}>Any rating</option>
+          {[1, 2, 3, 4, 5].map((n) => (
+            <option key={n} value={n}>
+              {"★".repeat(n)}
+              {n < 5 ? " or more" : ""}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.inclusion}
+          onChange={(e) => set({ inclusion: e.target.value as GalleryFilter["inclusion"] })}
+          className={inputClass}
+          aria-label="Layout inclusion"
+        >
+          {INCLUSION.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {facets.tags.length > 0 && (
+        <FacetChips
+          facets={facets.tags}
+          selected={filter.tags}
+          onToggle={(tag) => set({ tags: toggled(filter.tags, tag) })}
+        />
+      )}
+      {facets.objects.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-xs text-neutral-500">
+            Objects{filter.objects.length ? ` (${filter.objects.length} selected)` : ""}
+          </summary>
+          <div className="mt-1">
+            <FacetChips
+              facets={facets.objects}
+              selected={filter.objects}
+              onToggle={(object) => set({ objects: toggled(filter.objects, object) })}
+            />
+          </div>
+        </details>
+      )}
+      {isFiltered(filter) && (
+        <div className="flex items-center gap-2 text-xs text-neutral-500">
+          Showing {shown} of {total}
+          <button className="text-blue-600 hover:underline" onClick={() => onChange(EMPTY_FILTER)}>
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
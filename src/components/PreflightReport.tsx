@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import NextImage from "next/image";
+import type { LayoutItem } from "@/hooks/layout";
+import { ACCEPTABLE_DPI, GOOD_DPI, type Placement } from "@/hooks/quality";
+
+type Props = {
+  placements: Placement[];
+  items: LayoutItem[];
+};
+
+export const QUALITY_STYLES = {
+  good: "bg-emerald-600 text-white",
+  acceptable: "bg-amber-500 text-black",
+  poor: "bg-red-600 text-white",
+} as const;
+
+/**
+ * PreflightReport
+ * Lists every placement below print quality, so low-res photos can be fixed before export.
+ */
+export default function PreflightReport({ placements, items }: Props) {
+  const low = placements.filter((p) => p.quality !== "good").sort((a, b) => a.dpi - b.dpi);
+  const byId = new Map(items.map((it) => [it.id, it]));
+
+  if (low.length === 0) {
+    return (
+      <div className="print-hide rounded-md border px-3 py-2 text-sm text-emerald-700">
+        Preflight: all {placements.length} photos print at ≥ {GOOD_DPI} DPI.
+      </div>
+    );
+  }
+
+  return (
+    <details className="print-hide rounded-md border px-3 py-2 text-sm">
+      <summary className="cursor-pointer">
+        Preflight: {low.filter((p) => p.quality === "poor").length} poor (&lt; {ACCEPTABLE_DPI} DPI),{" "}
+        {low.filter((p) => p.quality === "acceptable").length} acceptable (&lt; {GOOD_DPI} DPI)
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {low.map((p) => {
+          const it = byId.get(p.itemId);
+          return (
+            <li key={`${p.page}:${p.slot}`} className="flex items-center gap-2">
+              {it && (
+                <div className="relative h-8 w-8 shrink-0 overflow-hidden rounded">
+                  <NextImage src={it.previewUrl} alt="photo" fill className="object-cover" unoptimized />
+                </div>
+              )}
+              <span>
+                Page {p.page + 1}, slot {p.slot + 1}
+              </span>
+              <span className={`ml-auto rounded px-2 py-0.5 text-xs ${QUALITY_STYLES[p.quality]}`}>
+                {Math.round(p.dpi)} DPI
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
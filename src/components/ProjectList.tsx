@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useRef } from "react";
+import { BUNDLE_EXTENSION } from "@/hooks/bundle";
+import type { ProjectMeta } from "@/hooks/projects";
+
+type Props = {
+  projects: ProjectMeta[];
+  currentId?: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+};
+
+export default function ProjectList({
+  projects,
+  currentId,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Albums</h2>
+        <div className="flex gap-2">
+          <button className="h-8 px-3 rounded-md border text-sm" onClick={() => fileRef.current?.click()}>
+            Import
+          </button>
+          <button className="h-8 px-3 rounded-md border text-sm" onClick={onCreate}>
+            New
+          </button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept={`${BUNDLE_EXTENSION},.zip,application/zip`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Reset so the same file can be picked again
+            e.target.value = "";
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+      <ul className="space-y-1">
+        {projects.map((p) => (
+          <li
+            key={p.id}
+            className={`flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm ${
+              p.id === currentId ? "bg-black/5 dark:bg-white/10" : ""
+            }`}
+          >
+            <button className="min-w-0 text-left" onClick={() => onOpen(p.id)} title={p.name}>
+              <div className="truncate font-medium">{p.name}</div>
+              <div className="text-[10px] text-neutral-500">
+                {p.imageCount} photos · {new Date(p.updatedAt).toLocaleString()}
+              </div>
+            </button>
+            <div className="flex shrink-0 gap-2 text-xs">
+              <button className="text-blue-600 hover:underline" onClick={() => onDuplicate(p.id)}>
+                Duplicate
+              </button>
+              <button className="text-blue-600 hover:underline" onClick={() => onExport(p.id)}>
+                Export
+              </button>
+              <button
+                className="text-red-600 hover:underline"
+                onClick={() => {
+                  if (window.confirm(`Delete album "${p.name}"?`)) onDelete(p.id);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
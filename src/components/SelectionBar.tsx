@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import { LAYOUT_KINDS, LAYOUT_TEMPLATES, type LayoutKind } from "@/hooks/templates";
+
+type Props = {
+  // Selected photos among those shown
+  selected: number;
+  shown: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onReanalyze: () => void;
+  onInclude: (included: boolean) => void;
+  // undefined returns to the analysis recommendation
+  onForceLayout: (layout?: LayoutKind) => void;
+  onRate: (rating?: number) => void;
+};
+
+const buttonClass = "h-8 px-2 rounded-md border text-xs disabled:opacity-40";
+
+/**
+ * SelectionBar
+ * Gallery selection and the bulk actions that apply to it.
+ */
+export default function SelectionBar({
+  selected,
+  shown,
+  onSelectAll,
+  onClear,
+  onReanalyze,
+  onInclude,
+  onForceLayout,
+  onRate,
+}: Props) {
+  const none = selected === 0;
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-xs text-neutral-500">{selected} selected</span>
+      <button className={buttonClass} disabled={selected === shown} onClick={onSelectAll}>
+        Select all shown
+      </button>
+      <button className={buttonClass} disabled={none} onClick={onClear}>
+        Clear selection
+      </button>
+      <span className="mx-1 h-5 border-l" />
+      <button className={buttonClass} disabled={none} onClick={onReanalyze}>
+        Re-analyze
+      </button>
+      <button className={buttonClass} disabled={none} onClick={() => onInclude(true)}>
+        Include
+      </button>
+      <button className={buttonClass} disabled={none} onClick={() => onInclude(false)}>
+        Exclude
+      </button>
+      <select
+        className="h-8 rounded-md border px-1 text-xs text-foreground bg-transparent disabled:opacity-40"
+        disabled={none}
+        value=""
+        onChange={(e) => onForceLayout(e.target.value === "auto" ? undefined : (e.target.value as LayoutKind))}
+        aria-label="Force layout"
+      >
+        <option value="" disabled>
+          Force layout…
+        </option>
+        <option value="auto">Recommended by analysis</option>
+        {LAYOUT_KINDS.map((kind) => (
+          <option key={kind} value={kind}>
+            {LAYOUT_TEMPLATES[kind].label}
+          </option>
+        ))}
+      </select>
+      <select
+        className="h-8 rounded-md border px-1 text-xs text-foreground bg-transparent disabled:opacity-40"
+        disabled={none}
+        value=""
+        onChange={(e) => onRate(Number(e.target.value) || undefined)}
+        aria-label="Rate"
+      >
+        <option value="" disabled>
+          Rate…
+        </option>
+        {[5, 4, 3, 2, 1].map((n) => (
+          <option key={n} value={n}>
+            {"★".repeat(n)}
+          </option>
+        ))}
+        <option value={0}>No rating</option>
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+import NextImage from "next/image";
+import type { SimilarGroup } from "@/hooks/similarity";
+
+type Item = { id: string; previewUrl: string; name: string };
+
+type Props = {
+  groups: SimilarGroup[];
+  items: Item[];
+  excluded: Set<string>;
+  // Sets the explicit include state of an image
+  onToggle: (id: string, included: boolean) => void;
+  // Clears the overrides of a group, back to the automatic best shot
+  onReset: (ids: string[]) => void;
+};
+
+/**
+ * SimilarGroups
+ * Review of near-duplicate and burst groups: the best frame is marked, click a photo to include or
+ * exclude it from the layout.
+ */
+export default function SimilarGroups({ groups, items, excluded, onToggle, onReset }: Props) {
+  if (groups.length === 0) return null;
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const hidden = groups.reduce((n, g) => n + g.ids.filter((id) => excluded.has(id)).length, 0);
+
+  return (
+    <details className="mb-4 rounded-md border px-3 py-2 text-sm">
+      <summary className="cursor-pointer">
+        Similar shots: {groups.length} {groups.length === 1 ? "group" : "groups"}, {hidden} excluded from the layout
+      </summary>
+      <ul className="mt-2 space-y-3">
+        {groups.map((g) => (
+          <li key={g.ids.join(":")}>
+            <div className="mb-1 flex items-center gap-2 text-xs text-neutral-500">
+              {g.kind === "burst" ? "Burst" : "Near-duplicates"} · {g.ids.length} photos
+              <button className="ml-auto hover:underline" onClick={() => onReset(g.ids)}>
+                Auto-pick best
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {g.ids.map((id) => {
+                const it = byId.get(id);
+                if (!it) return null;
+                const isExcluded = excluded.has(id);
+                return (
+                  <button
+                    key={id}
+                    onClick={() => onToggle(id, isExcluded)}
+                    title={`${it.name}: ${isExcluded ? "click to include" : "click to exclude"}`}
+                    className={`relative h-20 w-20 overflow-hidden rounded border-2 ${
+                      isExcluded ? "border-transparent opacity-40" : "border-blue-500"
+                    }`}
+                  >
+                    <NextImage src={it.previewUrl} alt={it.name} fill className="object-cover" unoptimized />
+                    {id === g.bestId && (
+                      <span className="absolute left-1 top-1 rounded bg-black/70 px-1 text-[10px] text-white">
+                        ★ Best
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import React from "react";
+
+type Props = {
+  // 1-5; undefined is unrated
+  value?: number;
+  // Clicking the current rating clears it
+  onChange: (rating?: number) => void;
+};
+
+export default function StarRating({ value = 0, onChange }: Props) {
+  return (
+    <div className="flex" role="group" aria-label="Rating">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          onClick={() => onChange(n === value ? undefined : n)}
+          className={`px-px text-sm leading-none ${n <= value ? "text-amber-500" : "text-neutral-300"}`}
+          title={n === value ? "Clear rating" : `${n} star${n === 1 ? "" : "s"}`}
+          aria-pressed={n <= value}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+}
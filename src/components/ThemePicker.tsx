@@ -0,0 +1,142 @@
+"use client";
+
+import React from "react";
+import { CAPTION_SOURCES } from "@/hooks/captions";
+import { THEMES, type AlbumTheme } from "@/hooks/theme";
+
+type Props = {
+  theme: AlbumTheme;
+  onChange: (theme: AlbumTheme) => void;
+};
+
+const FONTS: { id: AlbumTheme["font"]; label: string }[] = [
+  { id: "serif", label: "Serif" },
+  { id: "sans", label: "Sans-serif" },
+  { id: "mono", label: "Monospace" },
+];
+
+const BORDERS: { id: AlbumTheme["border"]; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "line", label: "Line" },
+  { id: "frame", label: "White frame" },
+];
+
+const POSITIONS: { id: AlbumTheme["captionPosition"]; label: string }[] = [
+  { id: "below", label: "Below photo" },
+  { id: "overlay", label: "On photo" },
+  { id: "footer", label: "Page footer" },
+];
+
+// Own text only makes sense per photo
+const DEFAULT_CAPTIONS = CAPTION_SOURCES.filter(
+  (s): s is { id: AlbumTheme["captions"]; label: string } => s.id !== "custom"
+);
+
+const selectClass = "h-8 w-full rounded-md border px-1 text-sm text-foreground bg-transparent";
+
+function sameTheme(a: AlbumTheme, b: AlbumTheme) {
+  return (Object.keys(a) as (keyof AlbumTheme)[]).every((k) => a[k] === b[k]);
+}
+
+export default function ThemePicker({ theme, onChange }: Props) {
+  const preset = THEMES.find((t) => sameTheme(t.theme, theme));
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold">Theme</h2>
+      <select
+        className="h-9 w-full rounded-md border px-2 text-sm bg-transparent"
+        value={preset?.id ?? "custom"}
+        onChange={(e) => {
+          const next = THEMES.find((t) => t.id === e.target.value);
+          if (next) onChange(next.theme);
+        }}
+      >
+        {THEMES.map((t) => (
+          <option key={t.id} value={t.id}>
+            {t.label}
+          </option>
+        ))}
+        {!preset && <option value="custom">Custom</option>}
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] text-neutral-500">
+          Font
+          <select
+            value={theme.font}
+            onChange={(e) => onChange({ ...theme, font: e.target.value as AlbumTheme["font"] })}
+            className={selectClass}
+          >
+            {FONTS.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-neutral-500">
+          Border
+          <select
+            value={theme.border}
+            onChange={(e) => onChange({ ...theme, border: e.target.value as AlbumTheme["border"] })}
+            className={selectClass}
+          >
+            {BORDERS.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-neutral-500">
+          Text color
+          <input
+            type="color"
+            value={theme.textColor}
+            onChange={(e) => onChange({ ...theme, textColor: e.target.value })}
+            className="h-8 w-full rounded-md border bg-transparent"
+          />
+        </label>
+        <label className="text-[10px] text-neutral-500">
+          Background
+          <input
+            type="color"
+            value={theme.background}
+            onChange={(e) => onChange({ ...theme, background: e.target.value })}
+            className="h-8 w-full rounded-md border bg-transparent"
+          />
+        </label>
+        <label className="text-[10px] text-neutral-500">
+          Captions
+          <select
+            value={theme.captions}
+            onChange={(e) => onChange({ ...theme, captions: e.target.value as AlbumTheme["captions"] })}
+            className={selectClass}
+          >
+            {DEFAULT_CAPTIONS.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-neutral-500">
+          Caption position
+          <select
+            value={theme.captionPosition}
+            onChange={(e) =>
+              onChange({ ...theme, captionPosition: e.target.value as AlbumTheme["captionPosition"] })
+            }
+            className={selectClass}
+          >
+            {POSITIONS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import type { PageSpec } from "@/hooks/spec";
+import { findVendor, VENDOR_PROFILES, vendorFormat, vendorSizeMatches } from "@/hooks/vendors";
+
+type Props = {
+  vendor?: string;
+  spec: PageSpec;
+  // undefined exports a plain PDF
+  onChange: (vendor?: string) => void;
+  onFormatChange: (spec: PageSpec) => void;
+};
+
+export default function VendorPicker({ vendor, spec, onChange, onFormatChange }: Props) {
+  const profile = findVendor(vendor);
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold">Print vendor</h2>
+      <select
+        className="h-9 w-full rounded-md border px-2 text-sm bg-transparent"
+        value={profile?.id ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+      >
+        <option value="">None (plain PDF)</option>
+        {VENDOR_PROFILES.map((v) => (
+          <option key={v.id} value={v.id}>
+            {v.label}
+          </option>
+        ))}
+      </select>
+      {profile && (
+        <div className="space-y-1 text-[10px] text-neutral-500">
+          <p>
+            {profile.widthMm}×{profile.heightMm} mm, {profile.bleedMm} mm bleed, {profile.safeMm} mm safe zone, ≥{" "}
+            {profile.minDpi} DPI, {profile.colorSpace === "cmyk" ? "CMYK" : "sRGB"}; {profile.minPages}-
+            {profile.maxPages} pages in multiples of {profile.pageMultiple}
+          </p>
+          {!vendorSizeMatches(profile, spec) && (
+            <p className="text-red-600">
+              The album format doesn&apos;t match this vendor.{" "}
+              <button className="text-blue-600 hover:underline" onClick={() => onFormatChange(vendorFormat(profile, spec))}>
+                Use vendor size
+              </button>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import React from "react";
+import type { Padding, VendorIssue, VendorProfile } from "@/hooks/vendors";
+
+type Props = {
+  profile: VendorProfile;
+  issues: VendorIssue[];
+  // Printed interior pages after padding; undefined when there are too many
+  pages?: number;
+  spineMm?: number;
+  padding: Padding;
+  onPaddingChange: (padding: Padding) => void;
+};
+
+/**
+ * VendorReport
+ * The vendor check of the current pages: what the print files will contain, and what blocks the export.
+ */
+export default function VendorReport({ profile, issues, pages, spineMm, padding, onPaddingChange }: Props) {
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+
+  return (
+    <div
+      className={`print-hide space-y-1 rounded-md border px-3 py-2 text-sm ${errors.length ? "border-red-600" : ""}`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{profile.label}</span>
+        {pages !== undefined && (
+          <span className="text-xs text-neutral-500">
+            {pages} interior pages, {spineMm} mm spine, {profile.colorSpace === "cmyk" ? "CMYK" : "sRGB"}
+          </span>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-xs text-neutral-500">
+          Pad with
+          <select
+            className="h-7 rounded-md border px-1 text-xs text-foreground bg-transparent"
+            value={padding}
+            onChange={(e) => onPaddingChange(e.target.value as Padding)}
+          >
+            <option value="blank">blank pages</option>
+            <option value="filler">“Notes” pages</option>
+          </select>
+        </label>
+      </div>
+      {errors.map((i) => (
+        <p key={i.message} className="text-red-600">
+          {i.message}
+        </p>
+      ))}
+      {warnings.map((i) => (
+        <p key={i.message} className="text-amber-700">
+          {i.message}
+        </p>
+      ))}
+    </div>
+  );
+}
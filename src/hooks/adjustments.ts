@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Enhancement settings of a photo, shared by the analysis (server) and the renderer (enhance.ts, client)
+
+export const adjustmentsSchema = z.object({
+  // Stretch the tonal range to the darkest and brightest LEVELS_CLIP of the pixels (see enhance.ts)
+  autoLevels: z.boolean().optional(),
+  // In stops
+  exposure: z.number().min(-2).max(2).optional(),
+  // White balance; negative is cooler (bluer), positive warmer
+  temperature: z.number().min(-1).max(1).optional(),
+  // Negative is greener, positive more magenta
+  tint: z.number().min(-1).max(1).optional(),
+  // Clockwise rotation in degrees; the photo is enlarged so no corners show
+  straighten: z.number().min(-10).max(10).optional(),
+  // Print sharpening
+  sharpen: z.boolean().optional(),
+});
+
+export type Adjustments = z.infer<typeof adjustmentsSchema>;
+
+export const NO_ADJUSTMENTS: Adjustments = {};
+
+export function isIdentity(adj: Adjustments | undefined) {
+  return (
+    !adj ||
+    (!adj.autoLevels && !adj.exposure && !adj.temperature && !adj.tint && !adj.straighten && !adj.sharpen)
+  );
+}
+
+/**
+ * straightenScale
+ * Enlargement that keeps a w×h frame covered after rotating the image by `radians` about its center.
+ */
+export function straightenScale(width: number, height: number, radians: number) {
+  const a = Math.abs(radians);
+  return Math.cos(a) + Math.sin(a) * Math.max(width / height, height / width);
+}
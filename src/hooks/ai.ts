@@ -1,21 +1,19 @@
 "use server";
 
-import { generateObject } from "ai";
-import { z } from "zod";
-import { google } from "@ai-sdk/google";
-import exifr from "exifr";
-
-const model = google("gemini-2.5-flash-lite");
-// https://ai-sdk.dev/providers/ai-sdk-providers/google-generative-ai
-
-const analysisSchema = z.object({
-  contentSummary: z.string(),
-  tags: z.array(z.string()).default([]),
-  objects: z.array(z.string()).default([]),
-  // Layout recommendation to guide album page composition
-  layout: z.enum(["single", "twoColumns", "twoRows", "grid2x2"]),
-  notes: z.string().optional(),
-});
+import { APICallError } from "ai";
+import { isIdentity, type Adjustments } from "@/hooks/adjustments";
+import { analysisCacheKey, cachedAnalysis } from "@/hooks/cache";
+import { effectiveDpi, FULL_CROP, resolveCrop, scaleCrop, type Crop, type FocalPoint } from "@/hooks/crop";
+import { extractMetadata } from "@/hooks/exif";
+import { parseLatLng } from "@/hooks/geo";
+import { reverseGeocode, type Place } from "@/hooks/geocode";
+import { slotRects, type LayoutKind } from "@/hooks/layout";
+import { getProvider, type ModelAnalysis } from "@/hooks/models";
+import type { ProviderId } from "@/hooks/providers";
+import { ACCEPTABLE_DPI, GOOD_DPI } from "@/hooks/quality";
+import { contentBox, DEFAULT_PAGE_SPEC, describeFormat, type PageSpec } from "@/hooks/spec";
+import { LAYOUT_KINDS, LAYOUT_TEMPLATES } from "@/hooks/templates";
+import { checkAnalysis, MAX_SUMMARY_WORDS, MAX_TAGS, MIN_TAGS, repairAnalysis } from "@/hooks/validation";
 
 export type ImageAnalysis = {
   contentSummary: string;
@@ -29,7 +27,13 @@ export type ImageAnalysis = {
     notes?: string;
   };
   metadata: Record<string, string>;
-  layout: "single" | "twoColumns" | "twoRows" | "grid2x2";
+  // Reverse-geocoded metadata.location
+  place?: Place;
+  layout: LayoutKind;
+  crop?: Crop;
+  focalPoint?: FocalPoint;
+  zoom?: number;
+  adjustments?: Adjustments;
 };
 
 type AnalyzeParams = {
@@ -37,49 +41,57 @@ type AnalyzeParams = {
   width: number;
   height: number;
   mimeType?: string;
+  // Pre-extracted EXIF metadata (see extractMetadata); parsed from `file` when omitted
+  metadata?: Record<string, string>;
+  format?: PageSpec;
+  // Project setting; undefined uses the server default (see getProvider)
+  provider?: ProviderId;
+  // Re-analysis: ask the model again instead of returning the cached answer, which is replaced
+  refresh?: boolean;
 };
 
+const LAYOUT_GUIDANCE = LAYOUT_KINDS.map((kind) => `   - ${kind}: ${LAYOUT_TEMPLATES[kind].hint}.`).join("\n");
+
+// Answers that break the prompt's rules are sent back this often before they are repaired locally
+const MAX_REASKS = 1;
+
+function reaskPrompt(prompt: string, violations: string[]) {
+  return `${prompt}
+
+Your previous answer broke these rules. Answer again and fix them:
+${violations.map((v) => `- ${v}`).join("\n")}`;
+}
+
 /**
  * analyzeImage
  * Server Action (no API route) that accepts a Blob from the client and returns a structured analysis.
+ * `width`/`height` are the original's pixel size; `file` may be a downscaled derivative.
  */
-export async function analyzeImage({ file, width, height, mimeType }: AnalyzeParams) {
+export async function analyzeImage({
+  file,
+  width,
+  height,
+  mimeType,
+  metadata: providedMetadata,
+  format = DEFAULT_PAGE_SPEC,
+  provider,
+  refresh,
+}: AnalyzeParams) {
   const mp = (width * height) / 1_000_000;
 
   // Prepare binary and try to extract EXIF/metadata
   const arrayBuffer = await file.arrayBuffer();
   const mediaType = mimeType || file.type;
 
-  const metadata: Record<string, string> = {};
-  try {
-    const exif = (await exifr.parse(arrayBuffer)) as Record<string, unknown> | undefined;
-    if (exif) {
-      const lat = exif.latitude as number | undefined;
-      const lng = exif.longitude as number | undefined;
-      const make = exif.Make as string | undefined;
-      const exifModel = exif.Model as string | undefined;
-      const lens = exif.LensModel as string | undefined;
-      const fnum = exif.FNumber as number | undefined;
-      const iso = exif.ISO as number | undefined;
-      const exp = exif.ExposureTime as number | undefined;
-      const focal = exif.FocalLength as number | undefined;
-      const dt = (exif.DateTimeOriginal as Date | undefined) || (exif.CreateDate as Date | undefined);
-
-      if (dt) metadata.time = new Date(dt).toISOString();
-      if (lat != null && lng != null) metadata.location = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-      if (make || exifModel) metadata.camera = [make, exifModel].filter(Boolean).join(" ");
-      if (lens) metadata.lens = lens;
-      if (fnum) metadata.aperture = `f/${fnum}`;
-      if (iso) metadata.iso = String(iso);
-      if (exp) metadata.exposure = exp >= 1 ? `${exp.toFixed(1)}s` : `1/${Math.round(1 / exp)}s`;
-      if (focal) metadata.focalLength = `${focal}mm`;
-    }
-  } catch {
-    // ignore metadata errors
-  }
+  // The client extracts EXIF before downscaling, since derivatives don't carry it
+  const metadata = providedMetadata ?? (await extractMetadata(arrayBuffer));
+
+  const position = parseLatLng(metadata.location);
+  const place = position ? await reverseGeocode(position) : undefined;
 
-  const metaStr = Object.keys(metadata).length
-    ? `\nMetadata:\n${Object.entries(metadata)
+  const promptMeta = place ? { ...metadata, place: place.label } : metadata;
+  const metaStr = Object.keys(promptMeta).length
+    ? `\nMetadata:\n${Object.entries(promptMeta)
         .map(([k, v]) => `- ${k}: ${v}`)
         .join("\n")}`
     : "";
@@ -87,45 +99,58 @@ export async function analyzeImage({ file, width, height, mimeType }: AnalyzePar
   const prompt = `You are a photo editor. Analyze the attached image and return JSON following the schema. Consider resolution: ${width}x${height} px (~${mp.toFixed(
     2
   )} MP).${metaStr}
-- contentSummary: <= 12 words, objective caption.
-- tags: 3-6 short tags.
+- contentSummary: <= ${MAX_SUMMARY_WORDS} words, objective caption. Mention the place when it is known and fits.
+- tags: ${MIN_TAGS}-${MAX_TAGS} short tags.
 - objects: main subjects or concepts.
-- layout: Choose ONE of { single | twoColumns | twoRows | grid2x2 } to recommend the best page layout for
-that image for a 30cm x 30cm square album.
+- layout: Choose ONE of { ${LAYOUT_KINDS.join(" | ")} } to recommend the best page layout for
+that image for a ${describeFormat(format)} album.
   Guidance:
-   - single: strong "hero" image or when details warrant full-page.
-   - twoColumns: two portrait-oriented images placed side-by-side (2 columns).
-   - twoRows: two landscape-oriented images stacked vertically (2 rows).
-   - grid2x2: four complementary images that work well as a 2x2 grid.`;
+${LAYOUT_GUIDANCE}
+- crop (optional): normalized rectangle { x, y, width, height } (0-1 of the image) to remove empty space,
+  clutter or distracting edges, or to improve composition, especially for the smaller cells of multi-photo layouts.
+  Omit when the full frame works.
+- focalPoint (optional): normalized { x, y } of the main subject.
+- zoom (optional): 1.5 or 2 when the subject is small in the frame and the resolution allows it.
+- adjustments (optional): only what the photo needs to print well. autoLevels for flat or hazy images;
+  exposure in stops (-2 to 2) for under- or overexposure; temperature and tint (-1 to 1, negative is cooler
+  or greener) against color casts; straighten in degrees (-10 to 10, clockwise) for a tilted horizon; sharpen
+  for slightly soft images. Omit when the photo is fine as it is.`;
 
   //console.log(prompt);
 
-  const { object, reasoning } = await generateObject({
-    model,
-    schema: analysisSchema,
-    messages: [
-      {
-        role: "user",
-        content: [{ type: "text", text: prompt }],
-      },
-      {
-        role: "user",
-        content: [{ type: "file", data: arrayBuffer, mediaType }],
-      },
-    ],
-    providerOptions: {
-      google: {
-        thinkingConfig: {
-          thinkingBudget: 2000,
-          includeThoughts: true,
-        },
-      },
-    },
+  const ai = getProvider(provider);
+  const input = { prompt, image: arrayBuffer, mediaType, width, height, metadata };
+  const context = { width, height, box: contentBox(format) };
+  // The prompt carries the size, EXIF and format, so the key covers everything the answer depends on
+  const key = analysisCacheKey(arrayBuffer, prompt, ai.model());
+  const object = await cachedAnalysis(key, refresh, async () => {
+    let { analysis, violations } = checkAnalysis(await ai.analyze(input), context);
+    for (let i = 0; i < MAX_REASKS && violations.length > 0; i++) {
+      let answer: ModelAnalysis;
+      try {
+        answer = await ai.analyze({ ...input, prompt: reaskPrompt(prompt, violations) });
+      } catch {
+        // The first answer is usable once repaired
+        break;
+      }
+      ({ analysis, violations } = checkAnalysis(answer, context));
+    }
+    return violations.length > 0 ? repairAnalysis(analysis, context) : analysis;
   });
 
-  //console.log(reasoning);
-
-  //TODO: verification of type like description length, tags count, fullPagePrintOK boolean, etc.
+  // Framing must keep acceptable print resolution in the recommended layout's slot: a crop that is too tight
+  // is widened (dropped when even that falls short), and zoom that is too close is refused
+  const [slot] = slotRects(object.layout, contentBox(format), format.gutterMm);
+  const dpiOf = (crop?: Crop, zoom?: number) =>
+    effectiveDpi(width, height, resolveCrop({ crop, focalPoint: object.focalPoint, zoom }), slot.width, slot.height);
+  let crop = object.crop;
+  if (crop && dpiOf(crop) < ACCEPTABLE_DPI) {
+    // Aimed just above the threshold, so rounding can't fail the check below
+    crop = scaleCrop(crop, (ACCEPTABLE_DPI + 1) / dpiOf(crop));
+    if (dpiOf(crop) < ACCEPTABLE_DPI) crop = undefined;
+  }
+  let zoom = object.zoom && object.zoom > 1 ? object.zoom : undefined;
+  if (zoom && dpiOf(crop, zoom) < ACCEPTABLE_DPI) zoom = undefined;
 
   const resolved: ImageAnalysis = {
     contentSummary: object.contentSummary,
@@ -134,14 +159,42 @@ that image for a 30cm x 30cm square album.
       width,
       height,
       megapixels: mp,
-      fullPagePrintOK: (width >= 2480 && height >= 3508) || (width >= 3508 && height >= 2480),
+      fullPagePrintOK: effectiveDpi(width, height, FULL_CROP, format.widthMm, format.heightMm) >= GOOD_DPI,
       notes: object.notes,
     },
     objects: object.objects,
     metadata,
+    place,
     layout: object.layout,
+    crop,
+    focalPoint: object.focalPoint,
+    zoom,
+    adjustments: isIdentity(object.adjustments) ? undefined : object.adjustments,
   };
   console.log(resolved.layout);
 
   return resolved;
 }
+
+export type AnalyzeResult =
+  | { ok: true; analysis: ImageAnalysis }
+  | { ok: false; error: string; retryable: boolean; status?: number };
+
+/**
+ * tryAnalyzeImage
+ * Same as analyzeImage, but reports failures as values: server action errors lose their details in
+ * production, and the queue needs the status to decide whether to back off and retry.
+ */
+export async function tryAnalyzeImage(params: AnalyzeParams): Promise<AnalyzeResult> {
+  try {
+    return { ok: true, analysis: await analyzeImage(params) };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (APICallError.isInstance(err)) {
+      const status = err.statusCode;
+      const retryable = err.isRetryable || status === 429 || (status != null && status >= 500);
+      return { ok: false, error: message, retryable, status };
+    }
+    return { ok: false, error: message, retryable: false };
+  }
+}
@@ -0,0 +1,239 @@
+import { strFromU8, strToU8, unzip, zip, type Unzipped, type Zippable } from "fflate";
+import { z } from "zod";
+import { adjustmentsSchema } from "@/hooks/adjustments";
+import { cropSchema } from "@/hooks/crop";
+import { isProviderId } from "@/hooks/providers";
+import { createProject, loadProject, saveProject, type PersistedImage, type ProjectMeta } from "@/hooks/projects";
+import { pageSpecSchema, pageTextSchema } from "@/hooks/spec";
+import { LAYOUT_KINDS } from "@/hooks/templates";
+import { themeSchema } from "@/hooks/theme";
+import { findVendor } from "@/hooks/vendors";
+
+// Album bundles: one zip with a versioned JSON manifest (album settings, pages, per-image state and
+// analysis) and the original files, for backups and for handing an album to someone else. Imports
+// are migrated to the current manifest version and validated before anything is stored.
+
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = ".album.zip";
+const MANIFEST_PATH = "album.json";
+
+const placeSchema = z.object({
+  city: z.string().optional(),
+  region: z.string().optional(),
+  country: z.string().optional(),
+  countryCode: z.string().optional(),
+  label: z.string(),
+  source: z.enum(["gazetteer", "nominatim"]),
+});
+
+const imageAnalysisSchema = z.object({
+  contentSummary: z.string(),
+  tags: z.array(z.string()),
+  objects: z.array(z.string()),
+  resolution: z.object({
+    width: z.number(),
+    height: z.number(),
+    megapixels: z.number(),
+    fullPagePrintOK: z.boolean(),
+    notes: z.string().optional(),
+  }),
+  metadata: z.record(z.string(), z.string()),
+  place: placeSchema.optional(),
+  layout: z.enum(LAYOUT_KINDS),
+  crop: cropSchema.optional(),
+  focalPoint: z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }).optional(),
+  zoom: z.number().min(1).max(2).optional(),
+  adjustments: adjustmentsSchema.optional(),
+});
+
+const pagePlanSchema = z.object({
+  id: z.string(),
+  type: z.enum([...LAYOUT_KINDS, "text"]),
+  itemIds: z.array(z.string()),
+  pinned: z.boolean().optional(),
+  crops: z.record(z.string(), cropSchema).optional(),
+  text: pageTextSchema.extend({ proposed: z.boolean().optional() }).optional(),
+  spread: z.boolean().optional(),
+  fullBleed: z.boolean().optional(),
+});
+
+const bundleImageSchema = z.object({
+  id: z.string(),
+  // Archive path of the original file
+  path: z.string(),
+  name: z.string(),
+  type: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  status: z.enum(["pending", "analyzing", "done", "error"]),
+  analysis: imageAnalysisSchema.optional(),
+  error: z.string().optional(),
+  signature: z
+    .object({ hash: z.string(), sharpness: z.number(), exposure: z.number(), time: z.string().optional() })
+    .optional(),
+  included: z.boolean().optional(),
+  caption: z
+    .object({ source: z.union([themeSchema.shape.captions, z.literal("custom")]), text: z.string().optional() })
+    .optional(),
+  edits: adjustmentsSchema.optional(),
+  metadata: z.record(z.string(), z.string()).optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+  layout: z.enum(LAYOUT_KINDS).optional(),
+});
+
+const manifestSchema = z.object({
+  version: z.literal(BUNDLE_VERSION),
+  album: z.object({
+    name: z.string(),
+    format: pageSpecSchema.optional(),
+    // Providers unknown to this installation fall back to the server default
+    provider: z
+      .string()
+      .optional()
+      .transform((v) => (isProviderId(v) ? v : undefined)),
+    theme: themeSchema.optional(),
+    // Print profiles unknown to this installation are dropped
+    vendor: z
+      .string()
+      .optional()
+      .transform((v) => (findVendor(v) ? v : undefined)),
+    // Manual page plan; absent while the layout is automatic
+    pages: z.array(pagePlanSchema).optional(),
+  }),
+  images: z.array(bundleImageSchema),
+});
+
+export type BundleManifest = z.infer<typeof manifestSchema>;
+
+type RawManifest = Record<string, unknown> & { version: number };
+
+// Upgrade steps keyed by the version they read; each returns a manifest of the next version. Add a step
+// (and bump BUNDLE_VERSION) whenever the manifest changes in a way older bundles don't satisfy.
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {};
+
+/**
+ * migrateManifest
+ * Brings a parsed manifest of any known version up to BUNDLE_VERSION and validates it.
+ */
+export function migrateManifest(raw: unknown): BundleManifest {
+  const head = z.looseObject({ version: z.number().int().positive() }).safeParse(raw);
+  if (!head.success) throw new Error(`${MANIFEST_PATH} has no format version`);
+  let manifest = head.data as RawManifest;
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(`This album was exported by a newer version of the app (format ${manifest.version})`);
+  }
+  while (manifest.version < BUNDLE_VERSION) {
+    const step = MIGRATIONS[manifest.version];
+    if (!step) throw new Error(`Album format ${manifest.version} is no longer supported`);
+    manifest = step(manifest);
+  }
+  const parsed = manifestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${MANIFEST_PATH} is invalid at ${issue.path.join(".") || "top level"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// fflate's async API compresses off the main thread
+function zipAsync(files: Zippable) {
+  return new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) =>
+    zip(files, (err, data) => (err ? reject(err) : resolve(data as Uint8Array<ArrayBuffer>)))
+  );
+}
+
+function unzipAsync(data: Uint8Array) {
+  return new Promise<Unzipped>((resolve, reject) =>
+    unzip(data, (err, files) => (err ? reject(err) : resolve(files)))
+  );
+}
+
+function extension(name: string) {
+  const match = /\.[a-z0-9]{1,5}$/i.exec(name);
+  return match ? match[0].toLowerCase() : "";
+}
+
+export function bundleFileName(albumName: string) {
+  const slug = albumName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "album"}${BUNDLE_EXTENSION}`;
+}
+
+/**
+ * exportBundle
+ * Packs a stored album into a zip: the manifest plus each original file, stored without recompression.
+ */
+export async function exportBundle(projectId: string): Promise<Blob> {
+  const { meta, images } = await loadProject(projectId);
+  const files: Zippable = {};
+  const entries: BundleManifest["images"] = [];
+  for (const [i, { file, ...it }] of images.entries()) {
+    const path = `images/${String(i + 1).padStart(4, "0")}${extension(file.name)}`;
+    files[path] = [new Uint8Array(await file.arrayBuffer()), { level: 0 }];
+    entries.push({ ...it, path, name: file.name, type: file.type });
+  }
+  const manifest: BundleManifest = {
+    version: BUNDLE_VERSION,
+    album: {
+      name: meta.name,
+      format: meta.format,
+      provider: meta.provider,
+      theme: meta.theme,
+      vendor: meta.vendor,
+      pages: meta.pages,
+    },
+    images: entries,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+  return new Blob([await zipAsync(files)], { type: "application/zip" });
+}
+
+/**
+ * importBundle
+ * Creates a new album from a bundle. Images get fresh ids (as in duplicateProject), so the same bundle
+ * can be imported more than once.
+ */
+export async function importBundle(bundle: Blob): Promise<ProjectMeta> {
+  let archive: Unzipped;
+  try {
+    archive = await unzipAsync(new Uint8Array(await bundle.arrayBuffer()));
+  } catch {
+    throw new Error("Not an album bundle (expected a zip archive)");
+  }
+  const rawManifest = archive[MANIFEST_PATH];
+  if (!rawManifest) throw new Error(`Not an album bundle (${MANIFEST_PATH} is missing)`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(rawManifest));
+  } catch {
+    throw new Error(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  const { album, images } = migrateManifest(parsed);
+
+  const idMap = new Map(images.map((it) => [it.id, crypto.randomUUID()]));
+  const persisted: PersistedImage[] = images.map(({ path, name, type, ...it }) => {
+    const bytes = archive[path];
+    if (!bytes) throw new Error(`File ${path} for ${name} is missing from the bundle`);
+    return {
+      ...it,
+      id: idMap.get(it.id)!,
+      file: new File([bytes as Uint8Array<ArrayBuffer>], name, { type }),
+      status: it.status === "analyzing" ? "pending" : it.status,
+    };
+  });
+  const remap = (id: string) => idMap.get(id) ?? id;
+  const pages = album.pages?.map((p) => ({
+    ...p,
+    itemIds: p.itemIds.map(remap),
+    crops: p.crops && Object.fromEntries(Object.entries(p.crops).map(([id, crop]) => [remap(id), crop])),
+  }));
+
+  const created = await createProject(album.name);
+  return saveProject(
+    { ...created, format: album.format, provider: album.provider, theme: album.theme, vendor: album.vendor, pages },
+    persisted
+  );
+}
@@ -0,0 +1,82 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { analysisSchema, type ModelAnalysis } from "@/hooks/models";
+
+// Validated model answers keyed by the image bytes, the prompt and the model, so the same photo is never
+// sent twice for the same question (server only). Answers are kept in memory and as JSON files:
+//
+//   ANALYSIS_CACHE_DIR   default .cache/analysis; "off" keeps answers in memory only
+
+// Bump when validation changes, so answers checked by older rules are asked again
+const ANALYSIS_VERSION = 1;
+
+// Bounded so a long-running server doesn't grow forever; the files are not bounded
+const CACHE_LIMIT = 2000;
+const memory = new Map<string, Promise<ModelAnalysis>>();
+
+function sha256(data: ArrayBuffer | string) {
+  return createHash("sha256")
+    .update(typeof data === "string" ? data : new Uint8Array(data))
+    .digest("hex");
+}
+
+function cacheDir() {
+  const dir = process.env.ANALYSIS_CACHE_DIR || ".cache/analysis";
+  return dir === "off" ? undefined : path.resolve(dir);
+}
+
+export function analysisCacheKey(image: ArrayBuffer, prompt: string, model: string) {
+  const question = sha256(JSON.stringify([ANALYSIS_VERSION, model, prompt]));
+  return `${sha256(image)}-${question.slice(0, 16)}`;
+}
+
+async function readStored(key: string) {
+  const dir = cacheDir();
+  if (!dir) return undefined;
+  try {
+    const parsed = analysisSchema.safeParse(JSON.parse(await readFile(path.join(dir, `${key}.json`), "utf8")));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeStored(key: string, value: ModelAnalysis) {
+  const dir = cacheDir();
+  if (!dir) return;
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${key}.json`), JSON.stringify(value));
+  } catch {
+    // Read-only deployments still get the in-memory cache
+  }
+}
+
+/**
+ * cachedAnalysis
+ * The stored answer for a key, else the result of `compute`, which is stored. With `refresh`, `compute`
+ * always runs and replaces the stored answer. Concurrent requests for the same key share one computation;
+ * failures are not cached.
+ */
+export function cachedAnalysis(
+  key: string,
+  refresh: boolean | undefined,
+  compute: () => Promise<ModelAnalysis>
+): Promise<ModelAnalysis> {
+  let entry = refresh ? undefined : memory.get(key);
+  if (!entry) {
+    if (refresh) memory.delete(key);
+    entry = (async () => {
+      const stored = refresh ? undefined : await readStored(key);
+      if (stored) return stored;
+      const value = await compute();
+      await writeStored(key, value);
+      return value;
+    })();
+    entry.catch(() => memory.delete(key));
+    if (memory.size >= CACHE_LIMIT) memory.delete(memory.keys().next().value!);
+    memory.set(key, entry);
+  }
+  return entry;
+}
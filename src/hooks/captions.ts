@@ -0,0 +1,52 @@
+import type { Place } from "@/hooks/geocode";
+import type { AlbumTheme } from "@/hooks/theme";
+
+// Per-photo captions. A photo either follows the album default (AlbumTheme.captions) or has its own
+// setting; the text is resolved on the client and sent to the PDF export as plain text.
+
+export type CaptionSource = AlbumTheme["captions"] | "custom";
+
+export type CaptionSetting = { source: CaptionSource; text?: string };
+
+export const CAPTION_SOURCES: { id: CaptionSource; label: string }[] = [
+  { id: "none", label: "No caption" },
+  { id: "summary", label: "AI summary" },
+  { id: "datePlace", label: "Date and place" },
+  { id: "summaryDatePlace", label: "Summary, date and place" },
+  { id: "custom", label: "Own text" },
+];
+
+export const MAX_CAPTION_LENGTH = 300;
+
+type CaptionInfo = { summary?: string; time?: string; place?: Place };
+
+function datePlace({ time, place }: CaptionInfo) {
+  const date = time ? new Intl.DateTimeFormat(undefined, { dateStyle: "long" }).format(new Date(time)) : undefined;
+  return [date, place?.label].filter(Boolean).join(" · ") || undefined;
+}
+
+/**
+ * captionText
+ * Caption of a photo from its own setting, else the album default. Undefined when there is nothing to show.
+ */
+export function captionText(setting: CaptionSetting | undefined, fallback: CaptionSource, info: CaptionInfo) {
+  const source = setting?.source ?? fallback;
+  let text: string | undefined;
+  switch (source) {
+    case "none":
+      return undefined;
+    case "custom":
+      text = setting?.text;
+      break;
+    case "summary":
+      text = info.summary;
+      break;
+    case "datePlace":
+      text = datePlace(info);
+      break;
+    case "summaryDatePlace":
+      text = [info.summary, datePlace(info)].filter(Boolean).join(" — ");
+      break;
+  }
+  return text?.trim().slice(0, MAX_CAPTION_LENGTH) || undefined;
+}
@@ -0,0 +1,112 @@
+import sharp from "sharp";
+import type { PrintColorSpace } from "@/hooks/vendors";
+
+// Color management for vendor print files, and upright photos for any PDF (server only). Photos are
+// converted with ICC profiles by libvips (through sharp), which bundles an sRGB and a generic CMYK profile;
+// photos without an embedded profile are taken as sRGB. A printer output profile is also embedded in the
+// PDF as its output intent.
+//
+//   CMYK_ICC_PROFILE   path to the vendor's CMYK profile (.icc/.icm); default: the bundled generic CMYK
+
+const PRINT_JPEG_QUALITY = 95;
+
+// `printer`: an output (printer) class profile, which can serve as the PDF's output intent
+export type OutputProfile = { bytes: Uint8Array; description: string; channels: 3 | 4; printer: boolean };
+
+function profileSource(space: PrintColorSpace) {
+  return space === "cmyk" ? process.env.CMYK_ICC_PROFILE || "cmyk" : "srgb";
+}
+
+// Profile description from the ICC 'desc' tag (v2 textDescription or v4 multiLocalizedUnicode)
+function iccDescription(icc: Uint8Array) {
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  const tags = view.getUint32(128);
+  for (let i = 0; i < tags; i++) {
+    const entry = 132 + 12 * i;
+    if (String.fromCharCode(...icc.subarray(entry, entry + 4)) !== "desc") continue;
+    const at = view.getUint32(entry + 4);
+    const type = String.fromCharCode(...icc.subarray(at, at + 4));
+    if (type === "desc") {
+      const length = view.getUint32(at + 8);
+      return String.fromCharCode(...icc.subarray(at + 12, at + 12 + length)).replace(/\0+$/, "");
+    }
+    if (type === "mluc") {
+      const length = view.getUint32(at + 20);
+      const offset = view.getUint32(at + 24);
+      const chars: number[] = [];
+      for (let j = 0; j < length; j += 2) chars.push(view.getUint16(at + offset + j));
+      return String.fromCharCode(...chars);
+    }
+  }
+  return undefined;
+}
+
+const profiles = new Map<PrintColorSpace, Promise<OutputProfile>>();
+
+/**
+ * outputProfile
+ * ICC profile of a print color space, read back from a 1×1 image converted to it.
+ */
+export function outputProfile(space: PrintColorSpace): Promise<OutputProfile> {
+  let entry = profiles.get(space);
+  if (!entry) {
+    entry = (async () => {
+      const pixel = await sharp({ create: { width: 1, height: 1, channels: 3, background: "#ffffff" } })
+        .toColourspace(space)
+        .withIccProfile(profileSource(space))
+        .jpeg()
+        .toBuffer();
+      const { icc } = await sharp(pixel).metadata();
+      if (!icc) throw new Error(`No ICC profile available for ${space.toUpperCase()}`);
+      const bytes = new Uint8Array(icc);
+      return {
+        bytes,
+        description: iccDescription(bytes) ?? space.toUpperCase(),
+        channels: space === "cmyk" ? 4 : 3,
+        // Profile/device class in the ICC header
+        printer: String.fromCharCode(...bytes.subarray(12, 16)) === "prtr",
+      };
+    })();
+    entry.catch(() => profiles.delete(space));
+    profiles.set(space, entry);
+  }
+  return entry;
+}
+
+/**
+ * uprightForPrint
+ * A photo with its EXIF orientation applied, since the PDF embeds pixels without it. Upright photos are
+ * returned as they are, so their bytes reach the PDF unchanged.
+ */
+export async function uprightForPrint(bytes: Uint8Array): Promise<Uint8Array> {
+  try {
+    const { orientation } = await sharp(bytes).metadata();
+    if (!orientation || orientation === 1) return bytes;
+    const out = await sharp(bytes)
+      .autoOrient()
+      .jpeg({ quality: PRINT_JPEG_QUALITY, chromaSubsampling: "4:4:4" })
+      .toBuffer();
+    return new Uint8Array(out);
+  } catch {
+    throw new Error("A photo could not be read");
+  }
+}
+
+/**
+ * convertForPrint
+ * A photo as upright JPEG in the print color space. The profile is not attached: the PDF's output intent
+ * names it.
+ */
+export async function convertForPrint(bytes: Uint8Array, space: PrintColorSpace): Promise<Uint8Array> {
+  try {
+    const out = await sharp(bytes)
+      .autoOrient()
+      .toColourspace(space)
+      .withIccProfile(profileSource(space), { attach: false })
+      .jpeg({ quality: PRINT_JPEG_QUALITY, chromaSubsampling: "4:4:4" })
+      .toBuffer();
+    return new Uint8Array(out);
+  } catch {
+    throw new Error(`A photo could not be converted to ${space.toUpperCase()}`);
+  }
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+// Normalized crop geometry: all rectangles are fractions (0..1) of the image's width/height.
+
+export const cropSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0.01).max(1),
+  height: z.number().min(0.01).max(1),
+});
+
+export type Crop = z.infer<typeof cropSchema>;
+
+export type FocalPoint = { x: number; y: number };
+
+export const FULL_CROP: Crop = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+function clampCrop(c: Crop): Crop {
+  const width = clamp(c.width, 0.01, 1);
+  const height = clamp(c.height, 0.01, 1);
+  return { x: clamp(c.x, 0, 1 - width), y: clamp(c.y, 0, 1 - height), width, height };
+}
+
+// The crop grown (or shrunk) about its centre by `factor`, kept inside the image
+export function scaleCrop(crop: Crop, factor: number): Crop {
+  const width = crop.width * factor;
+  const height = crop.height * factor;
+  return clampCrop({ x: crop.x + (crop.width - width) / 2, y: crop.y + (crop.height - height) / 2, width, height });
+}
+
+/**
+ * resolveCrop
+ * Combines a crop rectangle with a zoom factor around a focal point (defaults to the crop centre)
+ * into the final visible region.
+ */
+export function resolveCrop({ crop, focalPoint, zoom }: { crop?: Crop; focalPoint?: FocalPoint; zoom?: number }): Crop {
+  const base = clampCrop(crop ?? FULL_CROP);
+  const z = Math.max(1, zoom ?? 1);
+  if (z === 1) return base;
+  const fx = focalPoint?.x ?? base.x + base.width / 2;
+  const fy = focalPoint?.y ?? base.y + base.height / 2;
+  const width = base.width / z;
+  const height = base.height / z;
+  return {
+    x: clamp(fx - width / 2, base.x, base.x + base.width - width),
+    y: clamp(fy - height / 2, base.y, base.y + base.height - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * coverCrop
+ * Trims the crop around its centre to the slot's aspect ratio, so the region fills the slot
+ * without distortion (object-fit: cover applied to the crop).
+ */
+export function coverCrop(crop: Crop, imageWidth: number, imageHeight: number, slotWidth: number, slotHeight: number): Crop {
+  const cropAspect = (crop.width * imageWidth) / (crop.height * imageHeight);
+  const slotAspect = slotWidth / slotHeight;
+  if (cropAspect > slotAspect) {
+    const width = (crop.height * imageHeight * slotAspect) / imageWidth;
+    return { ...crop, x: crop.x + (crop.width - width) / 2, width };
+  }
+  const height = (crop.width * imageWidth) / slotAspect / imageHeight;
+  return { ...crop, y: crop.y + (crop.height - height) / 2, height };
+}
+
+/**
+ * effectiveDpi
+ * Resolution of the printed image when the crop fills a slot of the given size (in mm).
+ */
+export function effectiveDpi(imageWidth: number, imageHeight: number, crop: Crop, slotWidthMm: number, slotHeightMm: number) {
+  const c = coverCrop(crop, imageWidth, imageHeight, slotWidthMm, slotHeightMm);
+  return Math.min((c.width * imageWidth) / (slotWidthMm / 25.4), (c.height * imageHeight) / (slotHeightMm / 25.4));
+}
+
+const MIN_CROP_SIZE = 0.05;
+
+export type CropHandle = "move" | "left" | "right" | "top" | "bottom";
+
+/**
+ * adjustCrop
+ * Drags one edge of the crop (or the whole crop, for panning) by a normalized delta, keeping it
+ * inside the image and above a minimum size.
+ */
+export function adjustCrop(c: Crop, handle: CropHandle, dx: number, dy: number): Crop {
+  switch (handle) {
+    case "move":
+      return { ...c, x: clamp(c.x + dx, 0, 1 - c.width), y: clamp(c.y + dy, 0, 1 - c.height) };
+    case "left": {
+      const x = clamp(c.x + dx, 0, c.x + c.width - MIN_CROP_SIZE);
+      return { ...c, x, width: c.x + c.width - x };
+    }
+    case "right":
+      return { ...c, width: clamp(c.width + dx, MIN_CROP_SIZE, 1 - c.x) };
+    case "top": {
+      const y = clamp(c.y + dy, 0, c.y + c.height - MIN_CROP_SIZE);
+      return { ...c, y, height: c.y + c.height - y };
+    }
+    case "bottom":
+      return { ...c, height: clamp(c.height + dy, MIN_CROP_SIZE, 1 - c.y) };
+  }
+}
+
+/**
+ * cropStyle
+ * Positions an image inside an overflow-hidden box so that only the crop region is visible.
+ */
+export function cropStyle(crop: Crop) {
+  return {
+    left: `${(-crop.x / crop.width) * 100}%`,
+    top: `${(-crop.y / crop.height) * 100}%`,
+    width: `${100 / crop.width}%`,
+    height: `${100 / crop.height}%`,
+  };
+}
@@ -0,0 +1,56 @@
+import { extractMetadata } from "@/hooks/exif";
+
+// Analysis-sized copies of uploads. The model only needs a small image for a caption and a layout
+// vote, so the client sends a downscaled JPEG plus the EXIF read from the original.
+
+export const ANALYSIS_LONG_EDGE = 1024;
+const ANALYSIS_QUALITY = 0.85;
+
+export type AnalysisDerivative = { blob: Blob; metadata: Record<string, string> };
+
+// Keyed by the original file, so re-analysis (retries, re-opened projects) doesn't re-encode
+const cache = new WeakMap<Blob, Promise<AnalysisDerivative>>();
+
+async function downscale(file: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const scale = Math.min(1, ANALYSIS_LONG_EDGE / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && file.type === "image/jpeg") return file;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Failed to encode image"))), "image/jpeg", ANALYSIS_QUALITY)
+    );
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * getAnalysisDerivative
+ * Downscaled JPEG (long edge ANALYSIS_LONG_EDGE) and EXIF metadata of an original upload. Fails when the
+ * browser can't decode the file: the original would exceed the server action body limit. `metadata` is
+ * used instead of the file's own for converted uploads.
+ */
+export function getAnalysisDerivative(file: Blob, metadata?: Record<string, string>): Promise<AnalysisDerivative> {
+  let entry = cache.get(file);
+  if (!entry) {
+    entry = (async () => {
+      metadata ??= await extractMetadata(file);
+      const blob = await downscale(file).catch(() => {
+        throw new Error("This browser can't decode the photo for analysis; convert it to JPEG and upload it again");
+      });
+      return { blob, metadata };
+    })();
+    cache.set(file, entry);
+    // A failure is not kept, so a later attempt decodes again
+    entry.catch(() => cache.delete(file));
+  }
+  return entry;
+}
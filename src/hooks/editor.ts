@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Crop } from "@/hooks/crop";
+import {
+  buildPages,
+  LAYOUT_CAPACITY,
+  type LayoutItem,
+  type LayoutKind,
+  type Page,
+  type PagePlan,
+  type PageText,
+} from "@/hooks/layout";
+import type { PlannedPage } from "@/hooks/planner";
+import { fitTemplate } from "@/hooks/templates";
+
+export type SlotRef = { page: number; slot: number };
+
+export type EditAction =
+  | { type: "moveItem"; from: SlotRef; to: SlotRef }
+  | { type: "movePage"; from: number; to: number }
+  | { type: "setLayout"; page: number; layout: LayoutKind }
+  | { type: "togglePin"; page: number }
+  // Photo pages only: double-page spread, and slots running into the bleed
+  | { type: "toggleSpread"; page: number }
+  | { type: "toggleBleed"; page: number }
+  // Manual crop for an image on a page; undefined restores the AI suggestion
+  | { type: "setCrop"; page: number; itemId: string; crop?: Crop }
+  | { type: "rebuild" }
+  // Like rebuild, with the page sequence planned by the model (see planAlbum)
+  | { type: "plan"; pages: PlannedPage[] }
+  // Replaces all unaccepted text page proposals; each new page goes before the page with id
+  // `beforeId`, or first when undefined
+  | { type: "proposeText"; pages: { beforeId?: string; text: PageText }[] }
+  | { type: "setText"; page: number; text: PageText }
+  // Only text pages can be removed; photos leave the album by being excluded or deleted
+  | { type: "removePage"; page: number };
+
+const HISTORY_LIMIT = 100;
+
+function toPlans(pages: Page[], newId: (ids: string[]) => string): PagePlan[] {
+  return pages.map((p) => {
+    const itemIds = p.items.map((it) => it.id);
+    const plan: PagePlan = { id: newId(itemIds), type: p.type, itemIds };
+    if (p.spread) plan.spread = true;
+    if (p.fullBleed) plan.fullBleed = true;
+    return plan;
+  });
+}
+
+// Stable ids for generated pages so React keys survive recomputation
+const autoId = (ids: string[]) => `auto:${ids[0]}`;
+const freshId = () => crypto.randomUUID();
+
+export function autoPlans(items: LayoutItem[]): PagePlan[] {
+  return toPlans(buildPages(items), autoId);
+}
+
+function hasContent(p: PagePlan) {
+  return p.type === "text" || p.itemIds.length > 0;
+}
+
+/**
+ * reconcilePages
+ * Keeps a manually edited plan in sync with the analyzed items: removed images disappear (and empty
+ * photo pages with them), newly analyzed images are laid out and appended after the existing pages.
+ */
+export function reconcilePages(pages: PagePlan[], items: LayoutItem[]): PagePlan[] {
+  const known = new Set(items.map((it) => it.id));
+  const kept = pages
+    .map((p) => ({ ...p, itemIds: p.itemIds.filter((id) => known.has(id)) }))
+    .filter(hasContent);
+  const placed = new Set(kept.flatMap((p) => p.itemIds));
+  const added = items.filter((it) => !placed.has(it.id));
+  return added.length ? [...kept, ...autoPlans(added)] : kept;
+}
+
+/**
+ * plannedPages
+ * A model plan applied to the given items. Pages that lost photos (pinned elsewhere since) get the best
+ * fitting template; items the plan doesn't place are laid out automatically after it.
+ */
+function plannedPages(plan: PlannedPage[], items: LayoutItem[]): Page[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const pages: Page[] = [];
+  for (const p of plan) {
+    const own = p.itemIds.map((id) => byId.get(id)).filter((it): it is LayoutItem => !!it);
+    if (own.length === 0) continue;
+    own.forEach((it) => byId.delete(it.id));
+    const type = own.length === LAYOUT_CAPACITY[p.type] ? p.type : fitTemplate(own);
+    pages.push({ type, items: own, ...(p.spread ? { spread: true } : {}) });
+  }
+  return [...pages, ...buildPages([...byId.values()])];
+}
+
+/**
+ * rebuildPages
+ * Re-runs the automatic layout (or `layout`) for all unpinned photo pages. Pinned and text pages keep
+ * their content and position; manual crops follow their images onto the rebuilt pages.
+ */
+export function rebuildPages(
+  pages: PagePlan[],
+  items: LayoutItem[],
+  layout: (items: LayoutItem[]) => Page[] = buildPages
+): PagePlan[] {
+  const pinned = new Set(pages.filter((p) => p.pinned).flatMap((p) => p.itemIds));
+  const crops: Record<string, Crop> = Object.assign({}, ...pages.filter((p) => !p.pinned).map((p) => p.crops ?? {}));
+  const fresh = toPlans(layout(items.filter((it) => !pinned.has(it.id))), freshId).map((p) => {
+    const own = p.itemIds.filter((id) => crops[id]);
+    return own.length ? { ...p, crops: Object.fromEntries(own.map((id) => [id, crops[id]])) } : p;
+  });
+  const res: PagePlan[] = [];
+  for (const p of pages) {
+    if (p.pinned || p.type === "text") res.push(p);
+    else if (fresh.length) res.push(fresh.shift()!);
+  }
+  return [...res, ...fresh];
+}
+
+// Manual crops belong to the image, so they follow it to another page
+function moveCrop(from: PagePlan, to: PagePlan, id: string) {
+  if (from === to || !from.crops?.[id]) return;
+  to.crops = { ...to.crops, [id]: from.crops[id] };
+  delete from.crops[id];
+}
+
+export function applyEdit(pages: PagePlan[], action: EditAction, items: LayoutItem[]): PagePlan[] {
+  const next: PagePlan[] = pages.map((p) => ({ ...p, itemIds: [...p.itemIds], crops: p.crops && { ...p.crops } }));
+  switch (action.type) {
+    case "moveItem": {
+      const { from, to } = action;
+      const src = next[from.page];
+      const dst = next[to.page];
+      const id = src?.itemIds[from.slot];
+      if (!src || !dst || !id || (from.page === to.page && from.slot === to.slot)) return pages;
+      if (to.slot < dst.itemIds.length) {
+        // Occupied slot: swap
+        const other = dst.itemIds[to.slot];
+        src.itemIds[from.slot] = other;
+        dst.itemIds[to.slot] = id;
+        moveCrop(dst, src, other);
+      } else if (dst.type !== "text" && to.slot < LAYOUT_CAPACITY[dst.type]) {
+        src.itemIds.splice(from.slot, 1);
+        dst.itemIds.push(id);
+      } else {
+        return pages;
+      }
+      moveCrop(src, dst, id);
+      return next.filter(hasContent);
+    }
+    case "movePage": {
+      const [moved] = next.splice(action.from, 1);
+      if (!moved) return pages;
+      next.splice(action.to, 0, moved);
+      return next;
+    }
+    case "setLayout": {
+      const page = next[action.page];
+      if (!page || page.type === "text") return pages;
+      const capacity = LAYOUT_CAPACITY[action.layout];
+      const overflow = page.itemIds.splice(capacity);
+      page.type = action.layout;
+      // Images that no longer fit go onto automatically laid out pages right after this one
+      const byId = new Map(items.map((it) => [it.id, it]));
+      const extra = toPlans(
+        buildPages(overflow.map((id) => byId.get(id)).filter((it): it is LayoutItem => !!it)),
+        freshId
+      );
+      for (const plan of extra) plan.itemIds.forEach((id) => moveCrop(page, plan, id));
+      next.splice(action.page + 1, 0, ...extra);
+      return next;
+    }
+    case "togglePin": {
+      const page = next[action.page];
+      if (!page) return pages;
+      page.pinned = !page.pinned;
+      return next;
+    }
+    case "toggleSpread":
+    case "toggleBleed": {
+      const page = next[action.page];
+      if (!page || page.type === "text") return pages;
+      if (action.type === "toggleSpread") page.spread = !page.spread || undefined;
+      else page.fullBleed = !page.fullBleed || undefined;
+      return next;
+    }
+    case "setCrop": {
+      const page = next[action.page];
+      if (!page) return pages;
+      const crops = { ...page.crops };
+      if (action.crop) crops[action.itemId] = action.crop;
+      else delete crops[action.itemId];
+      page.crops = crops;
+      return next;
+    }
+    case "rebuild":
+      return rebuildPages(next, items);
+    case "plan":
+      return rebuildPages(next, items, (free) => plannedPages(action.pages, free));
+    case "proposeText": {
+      const res = next.filter((p) => !p.text?.proposed);
+      for (const { beforeId, text } of action.pages) {
+        const at = beforeId ? res.findIndex((p) => p.id === beforeId) : 0;
+        res.splice(Math.max(0, at), 0, { id: freshId(), type: "text", itemIds: [], text: { ...text, proposed: true } });
+      }
+      return res;
+    }
+    case "setText": {
+      const page = next[action.page];
+      if (!page || page.type !== "text") return pages;
+      page.text = action.text;
+      return next;
+    }
+    case "removePage": {
+      if (next[action.page]?.type !== "text") return pages;
+      next.splice(action.page, 1);
+      return next;
+    }
+  }
+}
+
+/**
+ * usePageEditor
+ * Editable page plan with undo/redo. `saved` is the persisted manual plan (undefined while the layout
+ * is fully automatic); every edit is reported through `onSave`. History resets when `key` changes.
+ * Edits apply to the latest pages, so callers that await a model request never commit the pages they
+ * started from; an action can also be derived from the latest pages (undefined leaves them unchanged).
+ */
+export function usePageEditor(
+  items: LayoutItem[],
+  saved: PagePlan[] | undefined,
+  onSave: (pages: PagePlan[] | undefined) => void,
+  key?: string
+) {
+  const [past, setPast] = useState<(PagePlan[] | undefined)[]>([]);
+  const [future, setFuture] = useState<(PagePlan[] | undefined)[]>([]);
+
+  useEffect(() => {
+    setPast([]);
+    setFuture([]);
+  }, [key]);
+
+  const pages = useMemo(() => (saved ? reconcilePages(saved, items) : autoPlans(items)), [saved, items]);
+
+  const latest = useRef({ saved, pages, items });
+  useEffect(() => {
+    latest.current = { saved, pages, items };
+  }, [saved, pages, items]);
+
+  const commit = useCallback(
+    (next: PagePlan[] | undefined) => {
+      const previous = latest.current.saved;
+      setPast((prev) => [...prev.slice(-(HISTORY_LIMIT - 1)), previous]);
+      setFuture([]);
+      onSave(next);
+    },
+    [onSave]
+  );
+
+  const edit = useCallback(
+    (action: EditAction | ((pages: PagePlan[]) => EditAction | undefined)) => {
+      const { pages, items } = latest.current;
+      const resolved = typeof action === "function" ? action(pages) : action;
+      if (resolved) commit(applyEdit(pages, resolved, items));
+    },
+    [commit]
+  );
+
+  const reset = useCallback(() => commit(undefined), [commit]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture((prev) => [saved, ...prev]);
+    onSave(past[past.length - 1]);
+  }, [past, saved, onSave]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setFuture(future.slice(1));
+    setPast((prev) => [...prev, saved]);
+    onSave(future[0]);
+  }, [future, saved, onSave]);
+
+  return {
+    pages,
+    isManual: saved != null,
+    edit,
+    reset,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
+
+export type PageEditor = ReturnType<typeof usePageEditor>;
@@ -0,0 +1,222 @@
+import exifr from "exifr";
+import { useEffect, useRef, useState } from "react";
+import { isIdentity, NO_ADJUSTMENTS, straightenScale, type Adjustments } from "@/hooks/adjustments";
+
+// Non-destructive photo enhancement. Originals are never changed: each photo carries a set of
+// adjustments (suggested by the analysis, or edited by hand) that are rendered on a canvas in a fixed
+// order: EXIF orientation, straighten, levels, exposure and white balance, sharpening. The preview shows
+// a screen-sized render, the PDF export gets a full-resolution one.
+
+const LEVELS_CLIP = 0.005;
+// Per-channel gain at temperature/tint ±1, in linear light
+const WHITE_BALANCE_GAIN = 0.2;
+const SHARPEN_AMOUNT = 0.35;
+const JPEG_QUALITY = 0.92;
+const PREVIEW_LONG_EDGE = 1600;
+
+// Stable key of the adjustments that change the result, for caching renders
+function adjustmentsKey(adj: Adjustments) {
+  return [
+    adj.autoLevels ? 1 : 0,
+    adj.exposure ?? 0,
+    adj.temperature ?? 0,
+    adj.tint ?? 0,
+    adj.straighten ?? 0,
+    adj.sharpen ? 1 : 0,
+  ].join(",");
+}
+
+const toLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+const toSrgb = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// Black and white points (0-255) that clip LEVELS_CLIP of the pixels at each end of the luminance histogram
+function levels(histogram: Uint32Array, total: number): [number, number] {
+  const clip = total * LEVELS_CLIP;
+  let black = 0;
+  let white = 255;
+  for (let sum = histogram[black]; sum <= clip && black < 255; ) sum += histogram[++black];
+  for (let sum = histogram[white]; sum <= clip && white > 0; ) sum += histogram[--white];
+  // Nearly flat images (fog, night sky) are left alone rather than amplified into noise
+  return white - black < 32 ? [0, 255] : [black, white];
+}
+
+/**
+ * toneCurves
+ * Lookup tables (red, green, blue) for levels, exposure and white balance. `histogram` is the luminance
+ * histogram of the image, used by auto levels.
+ */
+export function toneCurves(adj: Adjustments, histogram?: Uint32Array, total = 0): Uint8ClampedArray[] {
+  const [black, white] = adj.autoLevels && histogram ? levels(histogram, total) : [0, 255];
+  const exposure = 2 ** (adj.exposure ?? 0);
+  const t = adj.temperature ?? 0;
+  const m = adj.tint ?? 0;
+  const gains = [1 + WHITE_BALANCE_GAIN * t, 1 - WHITE_BALANCE_GAIN * m, 1 - WHITE_BALANCE_GAIN * t];
+  return gains.map((gain) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const leveled = Math.min(1, Math.max(0, (v - black) / (white - black)));
+      lut[v] = Math.round(toSrgb(Math.min(1, toLinear(leveled) * exposure * gain)) * 255);
+    }
+    return lut;
+  });
+}
+
+function luminanceHistogram(data: Uint8ClampedArray) {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+}
+
+// Unsharp mask with a 3×3 Laplacian; border pixels are left as they are
+function sharpen(data: Uint8ClampedArray, width: number, height: number, amount: number) {
+  const src = new Uint8ClampedArray(data);
+  const row = width * 4;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * row + x * 4;
+      for (let c = 0; c < 3; c++) {
+        const v = src[i + c];
+        const edge = 4 * v - src[i + c - 4] - src[i + c + 4] - src[i + c - row] - src[i + c + row];
+        data[i + c] = v + amount * edge;
+      }
+    }
+  }
+}
+
+async function render(file: Blob, adj: Adjustments, longEdge?: number): Promise<Blob> {
+  // Decoding with the EXIF orientation applied bakes it into the pixels
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const scale = longEdge ? Math.min(1, longEdge / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.imageSmoothingQuality = "high";
+
+    const angle = ((adj.straighten ?? 0) * Math.PI) / 180;
+    const grow = straightenScale(width, height, angle);
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(angle);
+    ctx.scale(grow, grow);
+    ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+
+    if (adj.autoLevels || adj.exposure || adj.temperature || adj.tint || adj.sharpen) {
+      const image = ctx.getImageData(0, 0, width, height);
+      const { data } = image;
+      const [r, g, b] = toneCurves(adj, adj.autoLevels ? luminanceHistogram(data) : undefined, width * height);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = r[data[i]];
+        data[i + 1] = g[data[i + 1]];
+        data[i + 2] = b[data[i + 2]];
+      }
+      if (adj.sharpen) sharpen(data, width, height, SHARPEN_AMOUNT);
+      ctx.putImageData(image, 0, 0);
+    }
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Failed to encode image"))), "image/jpeg", JPEG_QUALITY)
+    );
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Renders per original, keyed by size and adjustments; only the latest few are kept, since slider
+// edits produce a render per step
+const RENDERS_PER_FILE = 4;
+const renders = new WeakMap<Blob, Map<string, Promise<Blob>>>();
+
+/**
+ * renderEnhanced
+ * JPEG of a photo with its adjustments and EXIF orientation applied, scaled to `longEdge` when given.
+ */
+export function renderEnhanced(file: Blob, adj: Adjustments, longEdge?: number): Promise<Blob> {
+  let cache = renders.get(file);
+  if (!cache) {
+    cache = new Map();
+    renders.set(file, cache);
+  }
+  const key = `${longEdge ?? "full"}:${adjustmentsKey(adj)}`;
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = render(file, adj, longEdge);
+    entry.catch(() => cache.delete(key));
+    if (cache.size >= RENDERS_PER_FILE) cache.delete(cache.keys().next().value!);
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * printFile
+ * The file to print for a photo: the original when nothing needs to change, else a full-resolution
+ * render. Rotated originals are always rendered, since the PDF embeds pixels without their EXIF orientation.
+ */
+export async function printFile(file: Blob, adj: Adjustments | undefined): Promise<Blob> {
+  const orientation = await exifr.orientation(file).catch(() => undefined);
+  if (isIdentity(adj) && (!orientation || orientation === 1)) return file;
+  return renderEnhanced(file, adj ?? NO_ADJUSTMENTS);
+}
+
+const PREVIEW_DEBOUNCE_MS = 250;
+
+/**
+ * useEnhancedPreviews
+ * Object URLs of screen-sized renders for the photos that have adjustments, by photo id. Browsers already
+ * apply EXIF orientation on screen, so unadjusted photos have no entry and show their original.
+ */
+export function useEnhancedPreviews(photos: { id: string; file: Blob; adjustments?: Adjustments }[]) {
+  const rendered = useRef(new Map<string, { key: string; url?: string }>());
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const handle = setTimeout(async () => {
+      const current = rendered.current;
+      const live = new Set(photos.map((p) => p.id));
+      for (const [id, entry] of current) {
+        if (live.has(id)) continue;
+        if (entry.url) URL.revokeObjectURL(entry.url);
+        current.delete(id);
+      }
+      // One photo at a time to bound decode memory
+      for (const { id, file, adjustments } of photos) {
+        const key = isIdentity(adjustments) ? "" : adjustmentsKey(adjustments!);
+        const prev = current.get(id);
+        if (prev?.key === key) continue;
+        // Undecodable here (e.g. HEIC outside Safari): the original is shown
+        const blob = key
+          ? await renderEnhanced(file, adjustments!, PREVIEW_LONG_EDGE).catch(() => undefined)
+          : undefined;
+        const url = blob && URL.createObjectURL(blob);
+        if (cancelled) {
+          if (url) URL.revokeObjectURL(url);
+          return;
+        }
+        if (prev?.url) URL.revokeObjectURL(prev.url);
+        current.set(id, { key, url });
+      }
+      setUrls(new Map([...current].flatMap(([id, e]) => (e.url ? [[id, e.url] as const] : []))));
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [photos]);
+
+  // Revoke everything on unmount
+  useEffect(() => {
+    const current = rendered.current;
+    return () => {
+      for (const entry of current.values()) if (entry.url) URL.revokeObjectURL(entry.url);
+      current.clear();
+    };
+  }, []);
+
+  return urls;
+}
@@ -0,0 +1,38 @@
+import exifr from "exifr";
+
+/**
+ * extractMetadata
+ * Reads the EXIF fields used for captions, sequencing and the analysis prompt. Runs on the client
+ * (before downscaling; a File is read in chunks, not loaded whole) and on the server.
+ */
+export async function extractMetadata(data: ArrayBuffer | Blob): Promise<Record<string, string>> {
+  const metadata: Record<string, string> = {};
+  try {
+    const exif = (await exifr.parse(data)) as Record<string, unknown> | undefined;
+    if (exif) {
+      const lat = exif.latitude as number | undefined;
+      const lng = exif.longitude as number | undefined;
+      const make = exif.Make as string | undefined;
+      const exifModel = exif.Model as string | undefined;
+      const lens = exif.LensModel as string | undefined;
+      const fnum = exif.FNumber as number | undefined;
+      const iso = exif.ISO as number | undefined;
+      const exp = exif.ExposureTime as number | undefined;
+      const focal = exif.FocalLength as number | undefined;
+      const dt = (exif.DateTimeOriginal as Date | undefined) || (exif.CreateDate as Date | undefined);
+
+      if (dt) metadata.time = new Date(dt).toISOString();
+      if (lat != null && lng != null) metadata.location = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+      if (make || exifModel) metadata.camera = [make, exifModel].filter(Boolean).join(" ");
+      if (lens) metadata.lens = lens;
+      if (fnum) metadata.aperture = `f/${fnum}`;
+      if (iso) metadata.iso = String(iso);
+      if (exp) metadata.exposure = exp >= 1 ? `${exp.toFixed(1)}s` : `1/${Math.round(1 / exp)}s`;
+      if (focal) metadata.focalLength = `${focal}mm`;
+    }
+  } catch {
+    // ignore metadata errors
+  }
+
+  return metadata;
+}
@@ -0,0 +1,115 @@
+import type { ImageAnalysis } from "@/hooks/ai";
+
+// Gallery search and filters over the analysis results. Filters only change which photos the gallery
+// shows (and bulk actions apply to); what goes into the layout is decided by each photo's include state.
+
+export type GalleryFilter = {
+  // Words that must all appear in the file name, caption, tags, objects, place or camera
+  query: string;
+  // A photo must have every selected tag and object
+  tags: string[];
+  objects: string[];
+  // Capture dates (YYYY-MM-DD, local time), inclusive; photos without a time don't match a range
+  from?: string;
+  to?: string;
+  camera?: string;
+  // 0 matches unrated photos too
+  minRating: number;
+  inclusion: "all" | "included" | "excluded";
+};
+
+export const EMPTY_FILTER: GalleryFilter = { query: "", tags: [], objects: [], minRating: 0, inclusion: "all" };
+
+export type GalleryEntry = {
+  id: string;
+  file: { name: string };
+  analysis?: ImageAnalysis;
+  // EXIF kept from conversion on upload, for photos not analyzed yet
+  metadata?: Record<string, string>;
+  // 1-5 stars; undefined is unrated
+  rating?: number;
+};
+
+export type Facet = { value: string; count: number };
+
+export type GalleryFacets = { tags: Facet[]; objects: Facet[]; cameras: Facet[] };
+
+export function exifOf(entry: GalleryEntry): Record<string, string> {
+  return entry.analysis?.metadata ?? entry.metadata ?? {};
+}
+
+// Most common first, then alphabetical
+function countValues(values: string[]): Facet[] {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * galleryFacets
+ * Tags, objects (lowercased) and cameras of the given photos with the number of photos having each.
+ */
+export function galleryFacets(entries: GalleryEntry[]): GalleryFacets {
+  return {
+    tags: countValues(entries.flatMap((e) => e.analysis?.tags ?? [])),
+    objects: countValues(entries.flatMap((e) => [...new Set(e.analysis?.objects.map((o) => o.toLowerCase()))])),
+    cameras: countValues(entries.flatMap((e) => exifOf(e).camera ?? [])),
+  };
+}
+
+export function isFiltered(filter: GalleryFilter) {
+  return (
+    filter.query.trim() !== "" ||
+    filter.tags.length > 0 ||
+    filter.objects.length > 0 ||
+    !!filter.from ||
+    !!filter.to ||
+    !!filter.camera ||
+    filter.minRating > 0 ||
+    filter.inclusion !== "all"
+  );
+}
+
+function searchText(entry: GalleryEntry) {
+  const exif = exifOf(entry);
+  const a = entry.analysis;
+  const fields = [entry.file.name, a?.contentSummary, a?.place?.label, exif.camera, exif.lens];
+  return [...fields, ...(a?.tags ?? []), ...(a?.objects ?? [])]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+function inDateRange(time: string | undefined, from?: string, to?: string) {
+  if (!from && !to) return true;
+  if (!time) return false;
+  const t = new Date(time).getTime();
+  if (from && t < new Date(`${from}T00:00:00`).getTime()) return false;
+  if (to && t > new Date(`${to}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+/**
+ * filterGallery
+ * The photos matching a filter, in their original order. `excluded` are the photos left out of the layout
+ * (see excludedIds).
+ */
+export function filterGallery<T extends GalleryEntry>(entries: T[], filter: GalleryFilter, excluded: Set<string>): T[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((e) => {
+    if (filter.inclusion !== "all" && excluded.has(e.id) !== (filter.inclusion === "excluded")) return false;
+    if ((e.rating ?? 0) < filter.minRating) return false;
+    const exif = exifOf(e);
+    if (filter.camera && exif.camera !== filter.camera) return false;
+    if (!inDateRange(exif.time, filter.from, filter.to)) return false;
+    const tags = e.analysis?.tags ?? [];
+    if (!filter.tags.every((t) => tags.includes(t))) return false;
+    const objects = e.analysis?.objects.map((o) => o.toLowerCase()) ?? [];
+    if (!filter.objects.every((o) => objects.includes(o))) return false;
+    if (words.length === 0) return true;
+    const text = searchText(e);
+    return words.every((w) => text.includes(w));
+  });
+}
@@ -0,0 +1,230 @@
+// Offline gazetteer for reverse geocoding without network: larger cities and popular travel
+// destinations as [city, region, ISO country code, lat, lng]. Coarse by design (nearest listed place
+// within GAZETTEER_RADIUS_KM); configure Nominatim for street-level accuracy.
+
+export type GazetteerEntry = [city: string, region: string, countryCode: string, lat: number, lng: number];
+
+export const GAZETTEER_RADIUS_KM = 60;
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // Germany
+  ["Berlin", "Berlin", "DE", 52.52, 13.405],
+  ["Hamburg", "Hamburg", "DE", 53.551, 9.994],
+  ["Munich", "Bavaria", "DE", 48.137, 11.576],
+  ["Nuremberg", "Bavaria", "DE", 49.452, 11.077],
+  ["Augsburg", "Bavaria", "DE", 48.371, 10.898],
+  ["Regensburg", "Bavaria", "DE", 49.013, 12.102],
+  ["Würzburg", "Bavaria", "DE", 49.791, 9.953],
+  ["Garmisch-Partenkirchen", "Bavaria", "DE", 47.492, 11.095],
+  ["Berchtesgaden", "Bavaria", "DE", 47.631, 13.002],
+  ["Stuttgart", "Baden-Württemberg", "DE", 48.776, 9.183],
+  ["Karlsruhe", "Baden-Württemberg", "DE", 49.007, 8.404],
+  ["Freiburg im Breisgau", "Baden-Württemberg", "DE", 47.999, 7.842],
+  ["Heidelberg", "Baden-Württemberg", "DE", 49.398, 8.672],
+  ["Ulm", "Baden-Württemberg", "DE", 48.401, 9.988],
+  ["Tübingen", "Baden-Württemberg", "DE", 48.521, 9.057],
+  ["Konstanz", "Baden-Württemberg", "DE", 47.663, 9.175],
+  ["Frankfurt am Main", "Hesse", "DE", 50.11, 8.682],
+  ["Kassel", "Hesse", "DE", 51.312, 9.48],
+  ["Cologne", "North Rhine-Westphalia", "DE", 50.938, 6.96],
+  ["Düsseldorf", "North Rhine-Westphalia", "DE", 51.227, 6.773],
+  ["Dortmund", "North Rhine-Westphalia", "DE", 51.514, 7.468],
+  ["Münster", "North Rhine-Westphalia", "DE", 51.961, 7.626],
+  ["Bielefeld", "North Rhine-Westphalia", "DE", 52.03, 8.532],
+  ["Aachen", "North Rhine-Westphalia", "DE", 50.776, 6.084],
+  ["Hanover", "Lower Saxony", "DE", 52.375, 9.732],
+  ["Bremen", "Bremen", "DE", 53.079, 8.801],
+  ["Kiel", "Schleswig-Holstein", "DE", 54.323, 10.123],
+  ["Sylt", "Schleswig-Holstein", "DE", 54.908, 8.31],
+  ["Rostock", "Mecklenburg-Vorpommern", "DE", 54.092, 12.099],
+  ["Rügen", "Mecklenburg-Vorpommern", "DE", 54.42, 13.4],
+  ["Leipzig", "Saxony", "DE", 51.34, 12.375],
+  ["Dresden", "Saxony", "DE", 51.05, 13.738],
+  ["Erfurt", "Thuringia", "DE", 50.978, 11.029],
+  ["Magdeburg", "Saxony-Anhalt", "DE", 52.121, 11.628],
+  ["Mainz", "Rhineland-Palatinate", "DE", 49.993, 8.247],
+  ["Trier", "Rhineland-Palatinate", "DE", 49.75, 6.637],
+  ["Saarbrücken", "Saarland", "DE", 49.24, 6.997],
+  // Austria, Switzerland
+  ["Vienna", "Vienna", "AT", 48.208, 16.373],
+  ["Salzburg", "Salzburg", "AT", 47.81, 13.055],
+  ["Innsbruck", "Tyrol", "AT", 47.269, 11.404],
+  ["Graz", "Styria", "AT", 47.071, 15.439],
+  ["Zurich", "Zurich", "CH", 47.377, 8.541],
+  ["Geneva", "Geneva", "CH", 46.204, 6.143],
+  ["Bern", "Bern", "CH", 46.948, 7.447],
+  ["Lucerne", "Lucerne", "CH", 47.05, 8.309],
+  ["Zermatt", "Valais", "CH", 46.02, 7.749],
+  ["Lugano", "Ticino", "CH", 46.004, 8.951],
+  // Western Europe
+  ["Paris", "Île-de-France", "FR", 48.857, 2.352],
+  ["Lyon", "Auvergne-Rhône-Alpes", "FR", 45.764, 4.836],
+  ["Chamonix", "Auvergne-Rhône-Alpes", "FR", 45.924, 6.87],
+  ["Marseille", "Provence-Alpes-Côte d'Azur", "FR", 43.296, 5.37],
+  ["Nice", "Provence-Alpes-Côte d'Azur", "FR", 43.71, 7.262],
+  ["Bordeaux", "Nouvelle-Aquitaine", "FR", 44.838, -0.579],
+  ["Toulouse", "Occitanie", "FR", 43.605, 1.444],
+  ["Strasbourg", "Grand Est", "FR", 48.573, 7.752],
+  ["Nantes", "Pays de la Loire", "FR", 47.218, -1.554],
+  ["Brest", "Brittany", "FR", 48.39, -4.486],
+  ["Ajaccio", "Corsica", "FR", 41.919, 8.739],
+  ["Amsterdam", "North Holland", "NL", 52.368, 4.904],
+  ["Rotterdam", "South Holland", "NL", 51.924, 4.478],
+  ["Brussels", "Brussels", "BE", 50.85, 4.352],
+  ["Bruges", "West Flanders", "BE", 51.209, 3.225],
+  ["Luxembourg", "Luxembourg", "LU", 49.611, 6.13],
+  ["London", "England", "GB", 51.507, -0.128],
+  ["Manchester", "England", "GB", 53.481, -2.243],
+  ["Bath", "England", "GB", 51.381, -2.36],
+  ["Edinburgh", "Scotland", "GB", 55.953, -3.188],
+  ["Inverness", "Scotland", "GB", 57.478, -4.224],
+  ["Cardiff", "Wales", "GB", 51.481, -3.179],
+  ["Dublin", "Leinster", "IE", 53.35, -6.26],
+  ["Galway", "Connacht", "IE", 53.271, -9.057],
+  // Southern Europe
+  ["Madrid", "Community of Madrid", "ES", 40.417, -3.704],
+  ["Barcelona", "Catalonia", "ES", 41.385, 2.173],
+  ["Valencia", "Valencian Community", "ES", 39.47, -0.376],
+  ["Seville", "Andalusia", "ES", 37.389, -5.984],
+  ["Granada", "Andalusia", "ES", 37.177, -3.599],
+  ["Málaga", "Andalusia", "ES", 36.721, -4.421],
+  ["Palma", "Balearic Islands", "ES", 39.57, 2.65],
+  ["Ibiza", "Balearic Islands", "ES", 38.907, 1.42],
+  ["Las Palmas", "Canary Islands", "ES", 28.124, -15.436],
+  ["Santa Cruz de Tenerife", "Canary Islands", "ES", 28.464, -16.252],
+  ["Lisbon", "Lisbon", "PT", 38.722, -9.139],
+  ["Porto", "Porto", "PT", 41.158, -8.629],
+  ["Faro", "Algarve", "PT", 37.019, -7.93],
+  ["Funchal", "Madeira", "PT", 32.65, -16.908],
+  ["Rome", "Lazio", "IT", 41.903, 12.496],
+  ["Milan", "Lombardy", "IT", 45.464, 9.19],
+  ["Venice", "Veneto", "IT", 45.441, 12.316],
+  ["Verona", "Veneto", "IT", 45.438, 10.992],
+  ["Florence", "Tuscany", "IT", 43.77, 11.256],
+  ["Pisa", "Tuscany", "IT", 43.716, 10.402],
+  ["Siena", "Tuscany", "IT", 43.318, 11.331],
+  ["Bologna", "Emilia-Romagna", "IT", 44.494, 11.343],
+  ["Turin", "Piedmont", "IT", 45.07, 7.687],
+  ["Genoa", "Liguria", "IT", 44.406, 8.934],
+  ["Bolzano", "Trentino-South Tyrol", "IT", 46.498, 11.354],
+  ["Lake Garda", "Lombardy", "IT", 45.6, 10.65],
+  ["Naples", "Campania", "IT", 40.852, 14.268],
+  ["Amalfi", "Campania", "IT", 40.634, 14.603],
+  ["Bari", "Apulia", "IT", 41.117, 16.872],
+  ["Palermo", "Sicily", "IT", 38.116, 13.361],
+  ["Catania", "Sicily", "IT", 37.502, 15.087],
+  ["Cagliari", "Sardinia", "IT", 39.224, 9.122],
+  ["Olbia", "Sardinia", "IT", 40.923, 9.498],
+  ["Valletta", "Malta", "MT", 35.899, 14.514],
+  ["Athens", "Attica", "GR", 37.984, 23.728],
+  ["Thessaloniki", "Central Macedonia", "GR", 40.64, 22.944],
+  ["Santorini", "South Aegean", "GR", 36.393, 25.461],
+  ["Heraklion", "Crete", "GR", 35.339, 25.144],
+  ["Corfu", "Ionian Islands", "GR", 39.624, 19.922],
+  ["Split", "Split-Dalmatia", "HR", 43.508, 16.44],
+  ["Dubrovnik", "Dubrovnik-Neretva", "HR", 42.65, 18.094],
+  ["Zagreb", "Zagreb", "HR", 45.815, 15.982],
+  ["Ljubljana", "Ljubljana", "SI", 46.057, 14.506],
+  ["Kotor", "Kotor", "ME", 42.425, 18.771],
+  // Northern and Eastern Europe
+  ["Copenhagen", "Capital Region", "DK", 55.676, 12.568],
+  ["Stockholm", "Stockholm", "SE", 59.329, 18.069],
+  ["Gothenburg", "Västra Götaland", "SE", 57.709, 11.975],
+  ["Oslo", "Oslo", "NO", 59.914, 10.752],
+  ["Bergen", "Vestland", "NO", 60.391, 5.322],
+  ["Tromsø", "Troms", "NO", 69.649, 18.956],
+  ["Helsinki", "Uusimaa", "FI", 60.17, 24.938],
+  ["Rovaniemi", "Lapland", "FI", 66.503, 25.729],
+  ["Reykjavík", "Capital Region", "IS", 64.147, -21.942],
+  ["Prague", "Prague", "CZ", 50.076, 14.438],
+  ["Budapest", "Budapest", "HU", 47.498, 19.04],
+  ["Warsaw", "Masovia", "PL", 52.23, 21.012],
+  ["Kraków", "Lesser Poland", "PL", 50.065, 19.945],
+  ["Gdańsk", "Pomerania", "PL", 54.352, 18.646],
+  ["Bratislava", "Bratislava", "SK", 48.149, 17.107],
+  ["Tallinn", "Harju", "EE", 59.437, 24.754],
+  ["Riga", "Riga", "LV", 56.949, 24.106],
+  ["Vilnius", "Vilnius", "LT", 54.687, 25.28],
+  ["Bucharest", "Bucharest", "RO", 44.427, 26.103],
+  ["Sofia", "Sofia City", "BG", 42.698, 23.322],
+  ["Istanbul", "Istanbul", "TR", 41.008, 28.978],
+  ["Antalya", "Antalya", "TR", 36.897, 30.713],
+  // Americas
+  ["New York", "New York", "US", 40.713, -74.006],
+  ["Boston", "Massachusetts", "US", 42.36, -71.059],
+  ["Washington", "District of Columbia", "US", 38.907, -77.037],
+  ["Miami", "Florida", "US", 25.762, -80.192],
+  ["Orlando", "Florida", "US", 28.538, -81.379],
+  ["Chicago", "Illinois", "US", 41.878, -87.63],
+  ["New Orleans", "Louisiana", "US", 29.951, -90.072],
+  ["Denver", "Colorado", "US", 39.739, -104.99],
+  ["Las Vegas", "Nevada", "US", 36.17, -115.14],
+  ["Grand Canyon", "Arizona", "US", 36.107, -112.113],
+  ["Los Angeles", "California", "US", 34.052, -118.244],
+  ["San Diego", "California", "US", 32.716, -117.161],
+  ["San Francisco", "California", "US", 37.775, -122.419],
+  ["Yosemite Valley", "California", "US", 37.745, -119.593],
+  ["Seattle", "Washington", "US", 47.606, -122.332],
+  ["Honolulu", "Hawaii", "US", 21.307, -157.858],
+  ["Anchorage", "Alaska", "US", 61.218, -149.9],
+  ["Toronto", "Ontario", "CA", 43.653, -79.383],
+  ["Montreal", "Quebec", "CA", 45.502, -73.567],
+  ["Vancouver", "British Columbia", "CA", 49.283, -123.121],
+  ["Banff", "Alberta", "CA", 51.178, -115.571],
+  ["Mexico City", "Mexico City", "MX", 19.433, -99.133],
+  ["Cancún", "Quintana Roo", "MX", 21.162, -86.851],
+  ["Havana", "Havana", "CU", 23.114, -82.367],
+  ["San José", "San José", "CR", 9.928, -84.091],
+  ["Bogotá", "Bogotá", "CO", 4.711, -74.072],
+  ["Cusco", "Cusco", "PE", -13.532, -71.967],
+  ["Lima", "Lima", "PE", -12.046, -77.043],
+  ["Rio de Janeiro", "Rio de Janeiro", "BR", -22.907, -43.173],
+  ["São Paulo", "São Paulo", "BR", -23.551, -46.633],
+  ["Buenos Aires", "Buenos Aires", "AR", -34.604, -58.382],
+  ["Santiago", "Santiago Metropolitan", "CL", -33.449, -70.669],
+  // Africa and the Middle East
+  ["Marrakesh", "Marrakesh-Safi", "MA", 31.629, -7.981],
+  ["Cairo", "Cairo", "EG", 30.044, 31.236],
+  ["Hurghada", "Red Sea", "EG", 27.258, 33.812],
+  ["Cape Town", "Western Cape", "ZA", -33.925, 18.424],
+  ["Johannesburg", "Gauteng", "ZA", -26.204, 28.047],
+  ["Nairobi", "Nairobi", "KE", -1.292, 36.822],
+  ["Zanzibar", "Zanzibar", "TZ", -6.165, 39.199],
+  ["Dubai", "Dubai", "AE", 25.205, 55.271],
+  ["Tel Aviv", "Tel Aviv", "IL", 32.085, 34.782],
+  ["Jerusalem", "Jerusalem", "IL", 31.769, 35.216],
+  // Asia and Oceania
+  ["Tokyo", "Tokyo", "JP", 35.676, 139.65],
+  ["Kyoto", "Kyoto", "JP", 35.012, 135.768],
+  ["Osaka", "Osaka", "JP", 34.694, 135.502],
+  ["Seoul", "Seoul", "KR", 37.567, 126.978],
+  ["Beijing", "Beijing", "CN", 39.904, 116.407],
+  ["Shanghai", "Shanghai", "CN", 31.23, 121.474],
+  ["Hong Kong", "Hong Kong", "HK", 22.319, 114.169],
+  ["Taipei", "Taipei", "TW", 25.033, 121.565],
+  ["Bangkok", "Bangkok", "TH", 13.756, 100.502],
+  ["Chiang Mai", "Chiang Mai", "TH", 18.788, 98.985],
+  ["Phuket", "Phuket", "TH", 7.881, 98.392],
+  ["Hanoi", "Hanoi", "VN", 21.028, 105.854],
+  ["Ho Chi Minh City", "Ho Chi Minh City", "VN", 10.823, 106.63],
+  ["Siem Reap", "Siem Reap", "KH", 13.362, 103.86],
+  ["Singapore", "Singapore", "SG", 1.352, 103.82],
+  ["Kuala Lumpur", "Kuala Lumpur", "MY", 3.139, 101.687],
+  ["Bali", "Bali", "ID", -8.409, 115.189],
+  ["Manila", "Metro Manila", "PH", 14.6, 120.984],
+  ["Delhi", "Delhi", "IN", 28.614, 77.209],
+  ["Mumbai", "Maharashtra", "IN", 19.076, 72.878],
+  ["Jaipur", "Rajasthan", "IN", 26.912, 75.787],
+  ["Goa", "Goa", "IN", 15.3, 74.124],
+  ["Kathmandu", "Bagmati", "NP", 27.717, 85.324],
+  ["Colombo", "Western Province", "LK", 6.927, 79.861],
+  ["Malé", "Malé", "MV", 4.175, 73.509],
+  ["Sydney", "New South Wales", "AU", -33.869, 151.209],
+  ["Melbourne", "Victoria", "AU", -37.814, 144.963],
+  ["Brisbane", "Queensland", "AU", -27.47, 153.026],
+  ["Cairns", "Queensland", "AU", -16.919, 145.771],
+  ["Perth", "Western Australia", "AU", -31.95, 115.86],
+  ["Uluru", "Northern Territory", "AU", -25.344, 131.036],
+  ["Auckland", "Auckland", "NZ", -36.848, 174.763],
+  ["Queenstown", "Otago", "NZ", -45.031, 168.663],
+];
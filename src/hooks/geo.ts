@@ -0,0 +1,18 @@
+export type LatLng = { lat: number; lng: number };
+
+// Parses the "lat, lng" string stored in ImageAnalysis.metadata.location
+export function parseLatLng(raw: string | undefined): LatLng | undefined {
+  if (!raw) return undefined;
+  const [lat, lng] = raw.split(",").map((s) => Number(s.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined;
+  return { lat, lng };
+}
+
+// Great-circle distance (haversine)
+export function distanceKm(a: LatLng, b: LatLng) {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
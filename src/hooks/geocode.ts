@@ -0,0 +1,130 @@
+import { GAZETTEER, GAZETTEER_RADIUS_KM } from "@/hooks/gazetteer";
+import { distanceKm, type LatLng } from "@/hooks/geo";
+
+// Reverse geocoding of EXIF GPS positions into place names. The offline gazetteer is the default;
+// a Nominatim-compatible service can be configured for finer results:
+//
+//   GEOCODER          gazetteer | nominatim (default: gazetteer)
+//   NOMINATIM_URL     default https://nominatim.openstreetmap.org
+//   NOMINATIM_EMAIL   contact address sent with requests, per the Nominatim usage policy
+
+export type Place = {
+  city?: string;
+  region?: string;
+  country?: string;
+  countryCode?: string;
+  // Display name, e.g. "Munich, Germany"
+  label: string;
+  source: "gazetteer" | "nominatim";
+};
+
+export type Geocoder = {
+  id: Place["source"];
+  reverse: (pos: LatLng) => Promise<Place | undefined>;
+};
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+function countryName(code: string | undefined) {
+  if (!code) return undefined;
+  try {
+    return countryNames.of(code.toUpperCase());
+  } catch {
+    return undefined;
+  }
+}
+
+function makePlace(fields: Omit<Place, "label">): Place {
+  return { ...fields, label: [fields.city ?? fields.region, fields.country].filter(Boolean).join(", ") };
+}
+
+export const gazetteerGeocoder: Geocoder = {
+  id: "gazetteer",
+  reverse: async (pos) => {
+    let best: { entry: (typeof GAZETTEER)[number]; km: number } | undefined;
+    for (const entry of GAZETTEER) {
+      const km = distanceKm(pos, { lat: entry[3], lng: entry[4] });
+      if (!best || km < best.km) best = { entry, km };
+    }
+    if (!best || best.km > GAZETTEER_RADIUS_KM) return undefined;
+    const [city, region, countryCode] = best.entry;
+    return makePlace({ city, region, countryCode, country: countryName(countryCode), source: "gazetteer" });
+  },
+};
+
+// Nominatim allows one request per second; requests are spaced on this chain
+const NOMINATIM_INTERVAL_MS = 1100;
+let nominatimChain = Promise.resolve();
+
+type NominatimAddress = {
+  city?: string;
+  town?: string;
+  village?: string;
+  municipality?: string;
+  state?: string;
+  country?: string;
+  country_code?: string;
+};
+
+export const nominatimGeocoder: Geocoder = {
+  id: "nominatim",
+  reverse: (pos) => {
+    const base = process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org";
+    const url = new URL("/reverse", base);
+    url.search = new URLSearchParams({
+      format: "jsonv2",
+      lat: String(pos.lat),
+      lon: String(pos.lng),
+      zoom: "10",
+      "accept-language": "en",
+      ...(process.env.NOMINATIM_EMAIL ? { email: process.env.NOMINATIM_EMAIL } : {}),
+    }).toString();
+
+    const result = nominatimChain.then(async () => {
+      const res = await fetch(url, { headers: { "User-Agent": "photoalbum-creator" } });
+      if (!res.ok) throw new Error(`Nominatim responded ${res.status}`);
+      const { address } = (await res.json()) as { address?: NominatimAddress };
+      if (!address) return undefined;
+      return makePlace({
+        city: address.city ?? address.town ?? address.village ?? address.municipality,
+        region: address.state,
+        country: address.country,
+        countryCode: address.country_code?.toUpperCase(),
+        source: "nominatim",
+      });
+    });
+    nominatimChain = result.then(
+      () => new Promise((resolve) => setTimeout(resolve, NOMINATIM_INTERVAL_MS)),
+      () => new Promise((resolve) => setTimeout(resolve, NOMINATIM_INTERVAL_MS))
+    );
+    return result;
+  },
+};
+
+function getGeocoder(): Geocoder {
+  return process.env.GEOCODER === "nominatim" ? nominatimGeocoder : gazetteerGeocoder;
+}
+
+// Keyed by geocoder and position rounded to ~1 km; bounded so a long-running server doesn't grow forever
+const CACHE_LIMIT = 5000;
+const cache = new Map<string, Promise<Place | undefined>>();
+
+/**
+ * reverseGeocode
+ * City, region and country for a position, or undefined when nothing is known there. Service failures
+ * fall back to the offline gazetteer rather than failing the analysis.
+ */
+export function reverseGeocode(pos: LatLng): Promise<Place | undefined> {
+  const geocoder = getGeocoder();
+  const key = `${geocoder.id}:${pos.lat.toFixed(2)},${pos.lng.toFixed(2)}`;
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = geocoder.reverse(pos).catch(() => {
+      cache.delete(key);
+      return gazetteerGeocoder.reverse(pos);
+    });
+    if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+    cache.set(key, entry);
+  }
+  return entry;
+}
@@ -0,0 +1,266 @@
+import exifr from "exifr";
+import { extractMetadata } from "@/hooks/exif";
+
+// Upload ingestion. Every photo enters the album as a JPEG or PNG, which all browsers display and the PDF
+// renderer embeds. Formats are detected by their magic bytes, since names and MIME types of HEIC and RAW
+// files are often missing or wrong. HEIC/HEIF is decoded, camera RAW files (DNG, CR2, NEF, ARW) give their
+// embedded full-size JPEG preview, and other formats the browser can decode are re-encoded. Converted files
+// lose their EXIF, so the original's metadata is returned with them.
+
+export type ImageFormat = "jpeg" | "png" | "heic" | "avif" | "webp" | "gif" | "bmp" | "tiff";
+
+export type IngestedImage = {
+  file: File;
+  width: number;
+  height: number;
+  // Set when the file was converted: the source format and the original's EXIF metadata
+  convertedFrom?: ImageFormat;
+  metadata?: Record<string, string>;
+};
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  jpeg: "JPEG",
+  png: "PNG",
+  heic: "HEIC",
+  avif: "AVIF",
+  webp: "WebP",
+  gif: "GIF",
+  bmp: "BMP",
+  tiff: "RAW",
+};
+
+const JPEG_QUALITY = 0.92;
+// RAW previews smaller than this (long edge) are thumbnails, not printable
+const MIN_PREVIEW_EDGE = 1600;
+// Enough for the JPEG/PNG header in almost all files; larger EXIF blocks fall back to a full read
+const HEADER_BYTES = 256 * 1024;
+
+const ascii = (bytes: Uint8Array, at: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(at, at + length));
+
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+/**
+ * detectFormat
+ * Image format from the first bytes of a file; undefined for anything else.
+ */
+export function detectFormat(head: Uint8Array): ImageFormat | undefined {
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "jpeg";
+  if (ascii(head, 0, 8) === "\x89PNG\r\n\x1a\n") return "png";
+  if (ascii(head, 4, 4) === "ftyp") {
+    // Major brand plus the compatible brands that follow it in the ftyp box
+    const boxSize = new DataView(head.buffer, head.byteOffset).getUint32(0);
+    const brands = [ascii(head, 8, 4)];
+    for (let at = 16; at + 4 <= Math.min(boxSize, head.length); at += 4) brands.push(ascii(head, at, 4));
+    if (brands.some((b) => b === "avif" || b === "avis")) return "avif";
+    if (brands.some((b) => HEIF_BRANDS.includes(b))) return "heic";
+    return undefined;
+  }
+  if (ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 4) === "WEBP") return "webp";
+  if (ascii(head, 0, 4) === "GIF8") return "gif";
+  if (ascii(head, 0, 2) === "BM") return "bmp";
+  // TIFF container: DNG, CR2 (with "CR" at byte 8), NEF and ARW
+  if (ascii(head, 0, 4) === "II*\0" || ascii(head, 0, 4) === "MM\0*") return "tiff";
+  return undefined;
+}
+
+const read16 = (b: Uint8Array, at: number) => (b[at] << 8) | b[at + 1];
+
+// Baseline, extended and progressive frames; lossless JPEG (SOF3) is how DNG and CR2 store raw sensor data
+const DISPLAYABLE_SOF = new Set([0xc0, 0xc1, 0xc2]);
+
+/**
+ * jpegInfo
+ * Frame size of the JPEG starting at `start`, and the offset of its first scan when `b` reaches it. Only
+ * frames browsers can display count.
+ */
+function jpegInfo(b: Uint8Array, start = 0): { width: number; height: number; scan?: number } | undefined {
+  let size: { width: number; height: number } | undefined;
+  let i = start + 2;
+  while (i + 4 <= b.length) {
+    if (b[i] !== 0xff) return undefined;
+    const marker = b[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    const length = read16(b, i + 2);
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (!DISPLAYABLE_SOF.has(marker) || i + 9 > b.length) return undefined;
+      size = { height: read16(b, i + 5), width: read16(b, i + 7) };
+    }
+    if (marker === 0xda) return size && { ...size, scan: i + 2 + length };
+    i += 2 + length;
+  }
+  return size;
+}
+
+function headerSize(bytes: Uint8Array, format: ImageFormat) {
+  if (format === "png" && bytes.length >= 24) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (format === "jpeg") {
+    const info = jpegInfo(bytes);
+    return info && { width: info.width, height: info.height };
+  }
+  return undefined;
+}
+
+/**
+ * largestEmbeddedJpeg
+ * The biggest displayable JPEG inside a file, e.g. the preview a camera stores in its RAW files.
+ */
+export function largestEmbeddedJpeg(bytes: Uint8Array) {
+  let best: { start: number; end: number; width: number; height: number } | undefined;
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const info = jpegInfo(bytes, i);
+    if (!info?.scan || (best && info.width * info.height <= best.width * best.height)) continue;
+    // Entropy-coded data escapes 0xff, so the first 0xff 0xd9 after the scan ends the image
+    let end = info.scan;
+    while (end + 1 < bytes.length && !(bytes[end] === 0xff && bytes[end + 1] === 0xd9)) end++;
+    if (end + 1 >= bytes.length) continue;
+    best = { start: i, end: end + 2, width: info.width, height: info.height };
+    i = end + 1;
+  }
+  return best;
+}
+
+function canvasFor(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+}
+
+function toJpeg(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Failed to encode image"))), "image/jpeg", JPEG_QUALITY)
+  );
+}
+
+// Draws an image the way its EXIF orientation (1-8) says it should be viewed
+async function applyOrientation(blob: Blob, orientation: number) {
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "none" });
+  try {
+    const { width: w, height: h } = bitmap;
+    const { canvas, ctx } = orientation >= 5 ? canvasFor(h, w) : canvasFor(w, h);
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+      2: [-1, 0, 0, 1, w, 0],
+      3: [-1, 0, 0, -1, w, h],
+      4: [1, 0, 0, -1, 0, h],
+      5: [0, 1, 1, 0, 0, 0],
+      6: [0, 1, -1, 0, h, 0],
+      7: [0, -1, -1, 0, h, w],
+      8: [0, -1, 1, 0, 0, w],
+    };
+    if (transforms[orientation]) ctx.transform(...transforms[orientation]);
+    ctx.drawImage(bitmap, 0, 0);
+    return await toJpeg(canvas);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function rawPreview(file: File): Promise<Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const preview = largestEmbeddedJpeg(bytes);
+  if (!preview) throw new Error("No embedded preview found in this RAW file");
+  if (Math.max(preview.width, preview.height) < MIN_PREVIEW_EDGE) {
+    throw new Error(
+      `The embedded preview is only ${preview.width}×${preview.height} px, too small to print; ` +
+        "export a JPEG from your RAW converter"
+    );
+  }
+  const jpeg = new Blob([bytes.slice(preview.start, preview.end)], { type: "image/jpeg" });
+  // Previews are stored as the sensor saw them; the RAW's EXIF says how to turn them
+  const orientation = await exifr.orientation(file).catch(() => undefined);
+  return orientation && orientation > 1 ? applyOrientation(jpeg, orientation) : jpeg;
+}
+
+async function decodeHeic(file: File): Promise<Blob> {
+  // libheif is large; load it only when a HEIC file shows up
+  const { default: heic2any } = await import("heic2any");
+  try {
+    const res = await heic2any({ blob: file, toType: "image/jpeg", quality: JPEG_QUALITY });
+    return Array.isArray(res) ? res[0] : res;
+  } catch {
+    throw new Error("This HEIC image could not be decoded");
+  }
+}
+
+async function reencode(file: File, format: ImageFormat): Promise<Blob> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(`This browser can't decode ${FORMAT_LABELS[format]} images`);
+  }
+  try {
+    const { canvas, ctx } = canvasFor(bitmap.width, bitmap.height);
+    // JPEG has no transparency
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return await toJpeg(canvas);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * imageSize
+ * Display size of a JPEG or PNG: from its header, else the EXIF pixel dimensions; width and height are
+ * swapped for EXIF orientations that turn the image by 90°.
+ */
+async function imageSize(file: Blob, format: ImageFormat, orientation: number | undefined) {
+  let size = headerSize(new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()), format);
+  if (!size && file.size > HEADER_BYTES) size = headerSize(new Uint8Array(await file.arrayBuffer()), format);
+  if (!size) {
+    const tags = await exifr.parse(file, { pick: ["ExifImageWidth", "ExifImageHeight"] }).catch(() => undefined);
+    if (tags?.ExifImageWidth && tags?.ExifImageHeight) {
+      size = { width: tags.ExifImageWidth, height: tags.ExifImageHeight };
+    }
+  }
+  if (!size || !size.width || !size.height) throw new Error("Could not read the image size");
+  return orientation && orientation >= 5 ? { width: size.height, height: size.width } : size;
+}
+
+function renamed(file: File, blob: Blob) {
+  const base = file.name.replace(/\.[^.]+$/, "") || "photo";
+  return new File([blob], `${base}.jpg`, { type: "image/jpeg", lastModified: file.lastModified });
+}
+
+/**
+ * ingestImage
+ * Turns an upload into an album photo. Throws an Error with a user-facing reason for unsupported or
+ * undecodable files.
+ */
+export async function ingestImage(file: File): Promise<IngestedImage> {
+  const format = detectFormat(new Uint8Array(await file.slice(0, 64).arrayBuffer()));
+  if (!format) {
+    const ext = /\.([a-z0-9]+)$/i.exec(file.name)?.[1]?.toUpperCase();
+    throw new Error(`Unsupported file type${ext ? ` (.${ext})` : ""}`);
+  }
+  if (format === "jpeg" || format === "png") {
+    const orientation = await exifr.orientation(file).catch(() => undefined);
+    return { file, ...(await imageSize(file, format, orientation)) };
+  }
+
+  const converted =
+    format === "heic"
+      ? await decodeHeic(file)
+      : format === "tiff"
+        ? await rawPreview(file)
+        : await reencode(file, format);
+  // Conversions bake the orientation into the pixels
+  const size = await imageSize(converted, "jpeg", undefined);
+  return { file: renamed(file, converted), ...size, convertedFrom: format, metadata: await extractMetadata(file) };
+}
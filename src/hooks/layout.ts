@@ -0,0 +1,229 @@
+import type { Adjustments } from "@/hooks/adjustments";
+import type { CaptionSetting } from "@/hooks/captions";
+import type { Crop, FocalPoint } from "@/hooks/crop";
+import { distanceKm, parseLatLng } from "@/hooks/geo";
+import type { Place } from "@/hooks/geocode";
+import {
+  cellRect,
+  fitTemplate,
+  LAYOUT_CAPACITY,
+  LAYOUT_TEMPLATES,
+  MAX_CAPACITY,
+  type LayoutKind,
+} from "@/hooks/templates";
+import { orientationLayout, parseLayout } from "@/hooks/validation";
+
+export { LAYOUT_CAPACITY, type LayoutKind } from "@/hooks/templates";
+
+// Photo layouts plus text-only pages (album title, chapter openers)
+export type PageKind = LayoutKind | "text";
+
+export type TextRole = "title" | "chapter";
+
+export type PageText = {
+  role: TextRole;
+  heading: string;
+  body?: string;
+  // Suggested by the model and not yet accepted by the user
+  proposed?: boolean;
+};
+
+// Text page typography shared by the preview and the PDF renderer. Font sizes are a fraction of the
+// page width (cqw in CSS); the body column is a fraction of the content width; the gap between
+// heading and body is in heading sizes.
+export const TEXT_SIZES: Record<TextRole, { heading: number; body: number }> = {
+  title: { heading: 0.06, body: 0.022 },
+  chapter: { heading: 0.045, body: 0.02 },
+};
+export const TEXT_LAYOUT = { lineHeight: 1.35, bodyWidth: 0.7, headingGap: 0.6 };
+
+export type LayoutItem = {
+  id: string;
+  previewUrl: string;
+  // Original file, used for export at full resolution
+  file: Blob;
+  width: number;
+  height: number;
+  // Resolved caption text (see captionText) and the photo's own caption setting
+  caption?: string;
+  captionSetting?: CaptionSetting;
+  // Enhancement in effect (manual or suggested); previewUrl already shows it, export renders it
+  adjustments?: Adjustments;
+  analysis?: {
+    layout?: LayoutKind;
+    // EXIF capture time (ISO string) and "lat, lng" location, as stored in ImageAnalysis.metadata
+    time?: string;
+    location?: string;
+    // Caption and tags from ImageAnalysis, for text page suggestions
+    summary?: string;
+    tags?: string[];
+    // Reverse-geocoded location (ImageAnalysis.place)
+    place?: Place;
+    // Visible region after the AI crop/zoom suggestion (see resolveCrop)
+    crop?: Crop;
+    // Main subject, kept out of the binding gutter of spreads
+    focalPoint?: FocalPoint;
+  };
+};
+
+// `spread`: the page covers two facing pages; `fullBleed`: slots fill the page and run into the bleed
+export type Page = { type: LayoutKind; items: LayoutItem[]; spread?: boolean; fullBleed?: boolean };
+
+// Serializable page model used by the editor and stored with the project.
+// `crops` holds manual crops by image id; they override the AI suggestion. Text pages have no
+// items and carry `text` instead.
+export type PagePlan = {
+  id: string;
+  type: PageKind;
+  itemIds: string[];
+  pinned?: boolean;
+  crops?: Record<string, Crop>;
+  text?: PageText;
+  spread?: boolean;
+  fullBleed?: boolean;
+};
+
+// Consecutive photos further apart than this (in time or space) start a new event
+const EVENT_GAP_MS = 3 * 60 * 60 * 1000;
+const EVENT_DISTANCE_KM = 25;
+// Single photos at least this wide get a double-page spread
+const PANORAMA_ASPECT = 2;
+
+function parseTime(it: LayoutItem): number | undefined {
+  const raw = it.analysis?.time;
+  if (!raw) return undefined;
+  const t = Date.parse(raw);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/**
+ * sortChronologically
+ * Orders items by EXIF capture time. Items without a time inherit the time of the preceding
+ * item in upload order, so they stay next to the photos they were uploaded with.
+ */
+export function sortChronologically(items: LayoutItem[]): LayoutItem[] {
+  let last = -Infinity;
+  const keyed = items.map((it, idx) => {
+    const t = parseTime(it);
+    if (t != null) last = t;
+    return { it, idx, t: t ?? last };
+  });
+  keyed.sort((a, b) => a.t - b.t || a.idx - b.idx);
+  return keyed.map((k) => k.it);
+}
+
+/**
+ * groupIntoEvents
+ * Splits chronologically sorted items into events whenever the time gap or GPS distance between
+ * two consecutive photos exceeds the event thresholds. A change of (geocoded) city alone doesn't split:
+ * shots a few hundred metres apart can resolve to different nearby cities.
+ */
+export function groupIntoEvents(items: LayoutItem[]): LayoutItem[][] {
+  const events: LayoutItem[][] = [];
+  let current: LayoutItem[] = [];
+  let prevTime: number | undefined;
+  let prevLoc: { lat: number; lng: number } | undefined;
+
+  for (const it of sortChronologically(items)) {
+    const t = parseTime(it);
+    const loc = parseLatLng(it.analysis?.location);
+    const timeGap = t != null && prevTime != null && t - prevTime > EVENT_GAP_MS;
+    const moved = loc != null && prevLoc != null && distanceKm(prevLoc, loc) > EVENT_DISTANCE_KM;
+    if (current.length > 0 && (timeGap || moved)) {
+      events.push(current);
+      current = [];
+    }
+    current.push(it);
+    if (t != null) prevTime = t;
+    if (loc != null) prevLoc = loc;
+  }
+  if (current.length > 0) events.push(current);
+
+  return events;
+}
+
+/**
+ * pagePlace
+ * Location caption for a page: the shared place of its photos, or up to two city names.
+ */
+export function pagePlace(items: LayoutItem[]): string | undefined {
+  const places = items.map((it) => it.analysis?.place).filter((p): p is Place => !!p);
+  if (places.length === 0) return undefined;
+  const labels = [...new Set(places.map((p) => p.label))];
+  if (labels.length === 1) return labels[0];
+  const cities = [...new Set(places.map((p) => p.city).filter(Boolean))];
+  return cities.length > 0 && cities.length <= 2 ? cities.join(" · ") : undefined;
+}
+
+/**
+ * fitPages
+ * Lays out a run of photos in order with the templates that fit them best: up to a full page at once,
+ * longer runs are split so no page gets crowded.
+ */
+export function fitPages<T extends { width: number; height: number }>(run: T[]): { type: LayoutKind; items: T[] }[] {
+  const rest = [...run];
+  const res: { type: LayoutKind; items: T[] }[] = [];
+  while (rest.length > 0) {
+    const items = rest.splice(0, rest.length <= MAX_CAPACITY ? rest.length : 4);
+    res.push({ type: fitTemplate(items), items });
+  }
+  return res;
+}
+
+/**
+ * buildEventPages
+ * Fills the recommended templates with images of a single event. Pages are emitted in the order of their
+ * earliest photo, so the event reads chronologically. Photos of incomplete templates are pooled and laid
+ * out with the templates that fit them best, so every photo is placed.
+ */
+function buildEventPages(event: LayoutItem[]): Page[] {
+  const placed: { at: number; page: Page }[] = [];
+  const open = new Map<LayoutKind, { idx: number; it: LayoutItem }[]>();
+
+  event.forEach((it, idx) => {
+    // Fallback based on orientation: portrait -> twoColumns, landscape -> twoRows
+    const kind = parseLayout(it.analysis?.layout) ?? orientationLayout(it.width, it.height);
+    const bucket = [...(open.get(kind) ?? []), { idx, it }];
+    if (bucket.length === LAYOUT_CAPACITY[kind]) {
+      placed.push({ at: bucket[0].idx, page: { type: kind, items: bucket.map((b) => b.it) } });
+      open.delete(kind);
+    } else {
+      open.set(kind, bucket);
+    }
+  });
+
+  const rest = [...open.values()].flat().sort((a, b) => a.idx - b.idx);
+  let offset = 0;
+  for (const page of fitPages(rest.map((r) => r.it))) {
+    placed.push({ at: rest[offset].idx, page });
+    offset += page.items.length;
+  }
+
+  return placed
+    .sort((a, b) => a.at - b.at)
+    .map(({ page }) => {
+      const [it] = page.items;
+      return page.type === "single" && it.width / it.height >= PANORAMA_ASPECT ? { ...page, spread: true } : page;
+    });
+}
+
+/**
+ * buildPages
+ * Sequences analyzed images into album pages: chronological, grouped into events, and only
+ * combining photos from the same event on a page.
+ */
+export function buildPages(items: LayoutItem[]): Page[] {
+  return groupIntoEvents(items).flatMap(buildEventPages);
+}
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * slotRects
+ * Slot rectangles of a page layout inside the content box (y grows downwards), separated by the gutter.
+ * Shared by the preview, print quality checks and the PDF renderer.
+ */
+export function slotRects(type: LayoutKind, box: Rect, gutter: number): Rect[] {
+  const template = LAYOUT_TEMPLATES[type];
+  return template.slots.map((cell) => cellRect(template, cell, box, gutter));
+}
@@ -0,0 +1,184 @@
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { adjustmentsSchema } from "@/hooks/adjustments";
+import { cropSchema } from "@/hooks/crop";
+import { isProviderId, type ProviderId } from "@/hooks/providers";
+import { LAYOUT_KINDS } from "@/hooks/templates";
+import { fallbackTags, orientationOf } from "@/hooks/validation";
+
+// Server-side analysis providers. Each turns one image (plus prompt and EXIF) into a ModelAnalysis;
+// analyzeImage owns everything provider-independent (print checks, zoom refusal, result shape).
+// Providers also write structured text (title and chapter pages) from a text-only prompt.
+//
+// Environment:
+//   ANALYSIS_PROVIDER                 gemini | openaiCompatible | mock (default: gemini when
+//                                     GOOGLE_GENERATIVE_AI_API_KEY is set, otherwise mock)
+//   GEMINI_MODEL                      default gemini-2.5-flash-lite
+//   OPENAI_COMPATIBLE_BASE_URL        e.g. http://localhost:11434/v1 for Ollama
+//   OPENAI_COMPATIBLE_MODEL           a vision model, e.g. llava or qwen2.5vl
+//   OPENAI_COMPATIBLE_API_KEY         optional
+
+export const analysisSchema = z.object({
+  contentSummary: z.string(),
+  tags: z.array(z.string()).default([]),
+  objects: z.array(z.string()).default([]),
+  // Layout recommendation to guide album page composition
+  layout: z.enum(LAYOUT_KINDS),
+  // Composition suggestions, all normalized to the image size (0..1)
+  crop: cropSchema.optional(),
+  focalPoint: z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }).optional(),
+  zoom: z.number().min(1).max(2).optional(),
+  // Suggested enhancement, applied non-destructively
+  adjustments: adjustmentsSchema.optional(),
+  notes: z.string().optional(),
+});
+
+export type ModelAnalysis = z.infer<typeof analysisSchema>;
+
+export type ProviderInput = {
+  prompt: string;
+  image: ArrayBuffer;
+  mediaType: string;
+  // Original pixel size; `image` may be a downscaled derivative
+  width: number;
+  height: number;
+  metadata: Record<string, string>;
+};
+
+export type WriteInput<T> = {
+  prompt: string;
+  schema: z.ZodType<T>;
+  // Heuristic result for the offline provider
+  offline: () => T;
+};
+
+export type AnalysisProvider = {
+  id: ProviderId;
+  // Identifies the model answering, e.g. for caching its answers
+  model: () => string;
+  analyze: (input: ProviderInput) => Promise<ModelAnalysis>;
+  write: <T>(input: WriteInput<T>) => Promise<T>;
+};
+
+async function analyzeWithModel(model: LanguageModel, { prompt, image, mediaType }: ProviderInput) {
+  const { object } = await generateObject({
+    model,
+    schema: analysisSchema,
+    messages: [
+      {
+        role: "user",
+        content: [{ type: "text", text: prompt }],
+      },
+      {
+        role: "user",
+        content: [{ type: "file", data: image, mediaType }],
+      },
+    ],
+    // Retries are owned by the client-side analysis queue
+    maxRetries: 0,
+    providerOptions: {
+      google: {
+        thinkingConfig: {
+          thinkingBudget: 2000,
+          includeThoughts: true,
+        },
+      },
+    },
+  });
+  return object;
+}
+
+async function writeWithModel<T>(model: LanguageModel, { prompt, schema }: WriteInput<T>): Promise<T> {
+  const { object } = await generateObject({ model, schema, prompt, maxRetries: 0 });
+  return object as T;
+}
+
+// https://ai-sdk.dev/providers/ai-sdk-providers/google-generative-ai
+const geminiModelId = () => process.env.GEMINI_MODEL || "gemini-2.5-flash-lite";
+const geminiModel = () => google(geminiModelId());
+
+const gemini: AnalysisProvider = {
+  id: "gemini",
+  model: () => `gemini:${geminiModelId()}`,
+  analyze: (input) => analyzeWithModel(geminiModel(), input),
+  write: (input) => writeWithModel(geminiModel(), input),
+};
+
+// https://ai-sdk.dev/providers/openai-compatible-providers
+function openaiCompatibleModel() {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const modelId = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (!baseURL || !modelId) {
+    throw new Error("OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL must be set for this provider");
+  }
+  const provider = createOpenAICompatible({
+    name: "openaiCompatible",
+    baseURL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    supportsStructuredOutputs: true,
+  });
+  return provider(modelId);
+}
+
+const openaiCompatible: AnalysisProvider = {
+  id: "openaiCompatible",
+  model: () => `openaiCompatible:${process.env.OPENAI_COMPATIBLE_BASE_URL}:${process.env.OPENAI_COMPATIBLE_MODEL}`,
+  analyze: async (input) => analyzeWithModel(openaiCompatibleModel(), input),
+  write: async (input) => writeWithModel(openaiCompatibleModel(), input),
+};
+
+/**
+ * mockAnalysis
+ * Deterministic, offline stand-in for a model: layout from orientation, caption and tags from EXIF.
+ * Lets the full upload → analyze → layout → export flow run without network or keys.
+ */
+export function mockAnalysis({ width, height, metadata }: Pick<ProviderInput, "width" | "height" | "metadata">) {
+  const aspect = width / height;
+  const orientation = orientationOf(width, height);
+  const layout: ModelAnalysis["layout"] =
+    aspect >= 1.9 ? "single" : orientation === "landscape" ? "twoRows" : orientation === "portrait" ? "twoColumns" : "grid2x2";
+  const date = metadata.time?.slice(0, 10);
+
+  const summary = [aspect >= 1.9 ? "Panoramic" : orientation[0].toUpperCase() + orientation.slice(1), "photo"];
+  if (metadata.camera) summary.push("taken with", metadata.camera);
+  if (date) summary.push("on", date);
+
+  // At least MIN_TAGS without any metadata, so the offline answer passes checkAnalysis
+  const tags = fallbackTags(width, height);
+  if (aspect >= 1.9 && !tags.includes("panorama")) tags.push("panorama");
+  if (date) tags.push(date.slice(0, 4));
+  if (metadata.location) tags.push("geotagged");
+
+  return {
+    contentSummary: summary.join(" "),
+    tags,
+    objects: [],
+    layout,
+    notes: "Heuristic analysis (offline provider)",
+  } satisfies ModelAnalysis;
+}
+
+const mock: AnalysisProvider = {
+  id: "mock",
+  model: () => "mock",
+  analyze: async (input) => mockAnalysis(input),
+  write: async (input) => input.offline(),
+};
+
+const PROVIDERS: Record<ProviderId, AnalysisProvider> = { gemini, openaiCompatible, mock };
+
+/**
+ * getProvider
+ * The requested provider (project setting), else ANALYSIS_PROVIDER, else Gemini when a key is configured.
+ */
+export function getProvider(requested?: ProviderId): AnalysisProvider {
+  const id = requested ?? process.env.ANALYSIS_PROVIDER;
+  if (id) {
+    // Also guards the server action boundary, where `requested` is untrusted
+    if (!isProviderId(id)) throw new Error(`Unknown analysis provider "${id}"`);
+    return PROVIDERS[id];
+  }
+  return process.env.GOOGLE_GENERATIVE_AI_API_KEY ? gemini : mock;
+}
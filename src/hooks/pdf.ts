@@ -0,0 +1,471 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFString,
+  clip,
+  cmyk,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  StandardFonts,
+  type Color,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from "pdf-lib";
+import type { OutputProfile } from "@/hooks/color";
+import { coverCrop, FULL_CROP, type Crop } from "@/hooks/crop";
+import { TEXT_LAYOUT, TEXT_SIZES, type PageText, type Rect } from "@/hooks/layout";
+import { contentBox, type PageSpec, type PdfRequest } from "@/hooks/spec";
+import { pageSlots, physicalPages } from "@/hooks/spreads";
+import {
+  captionFontMm,
+  captionRect,
+  footerRect,
+  LINE_WIDTH_MM,
+  OVERLAY_OPACITY,
+  photoArea,
+  type AlbumTheme,
+} from "@/hooks/theme";
+
+// Server-side PDF rendering of album pages. All geometry is in millimetres, converted to points
+// only when drawing. No metadata (dates, producer) is written, so the output is byte-for-byte
+// reproducible for the same input. Vendor print files have every color in the print profile's color space,
+// an output intent naming a printer profile, and trim and bleed boxes. They are not PDF/X: the standard
+// fonts are not embedded.
+
+const MM_TO_PT = 72 / 25.4;
+const MARK_OFFSET_MM = 2; // distance between the bleed edge and the start of a crop mark
+const MARK_LENGTH_MM = 6;
+const MARK_THICKNESS_PT = 0.25;
+
+// Standard PDF fonts matching the theme's CSS font stacks
+const THEME_FONTS: Record<AlbumTheme["font"], { heading: StandardFonts; body: StandardFonts }> = {
+  serif: { heading: StandardFonts.TimesRomanBold, body: StandardFonts.TimesRoman },
+  sans: { heading: StandardFonts.HelveticaBold, body: StandardFonts.Helvetica },
+  mono: { heading: StandardFonts.CourierBold, body: StandardFonts.Courier },
+};
+
+type Fonts = { heading: PDFFont; body: PDFFont };
+
+// Color management of a vendor print file; `createdAt` comes with the request so the output stays reproducible
+export type PrintOutput = { profile: OutputProfile; title: string; createdAt: Date };
+
+type Ink = (hex: string) => Color;
+
+const WHITE = "#ffffff";
+const BLACK = "#000000";
+
+// Vector colors (backgrounds, text, marks) for the output's color space. The CMYK conversion is the plain
+// device formula: theme colors are picked on screen, so a close match is all that is needed.
+function inkFor(output?: PrintOutput): Ink {
+  const cmykInk = output?.profile.channels === 4;
+  return (hex) => {
+    const n = parseInt(hex.slice(1), 16);
+    const [r, g, b] = [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+    if (!cmykInk) return rgb(r, g, b);
+    const k = 1 - Math.max(r, g, b);
+    if (k >= 1) return cmyk(0, 0, 0, 1);
+    return cmyk((1 - r - k) / (1 - k), (1 - g - k) / (1 - k), (1 - b - k) / (1 - k), k);
+  };
+}
+
+const XMP_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+
+// Output intent (printer profiles only; an sRGB monitor profile describes no print condition) and metadata
+// of a print file
+function applyPrintOutput(doc: PDFDocument, { profile, title, createdAt }: PrintOutput) {
+  const { context } = doc;
+  if (profile.printer) {
+    const iccRef = context.register(context.flateStream(profile.bytes, { N: profile.channels }));
+    const intent = context.obj({
+      Type: "OutputIntent",
+      S: "GTS_PDFX",
+      OutputConditionIdentifier: PDFString.of("Custom"),
+      Info: PDFString.of(profile.description),
+      DestOutputProfile: iccRef,
+    });
+    doc.catalog.set(PDFName.of("OutputIntents"), context.obj([intent]));
+  }
+
+  doc.setTitle(title);
+  doc.setCreationDate(createdAt);
+  doc.setModificationDate(createdAt);
+  const info = context.lookup(context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of("Trapped"), PDFName.of("False"));
+
+  const date = createdAt.toISOString();
+  const escaped = title.replace(/[&<>"]/g, (c) => XMP_ESCAPES[c]);
+  const xmp = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+ xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escaped}</rdf:li></rdf:Alt></dc:title>
+<xmp:CreateDate>${date}</xmp:CreateDate>
+<xmp:ModifyDate>${date}</xmp:ModifyDate>
+<pdf:Trapped>False</pdf:Trapped>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+  const metadata = context.stream(new TextEncoder().encode(xmp), { Type: "Metadata", Subtype: "XML" });
+  doc.catalog.set(PDFName.of("Metadata"), context.register(metadata));
+}
+
+const pt = (mm: number) => mm * MM_TO_PT;
+
+function isJpeg(bytes: Uint8Array) {
+  return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+function isPng(bytes: Uint8Array) {
+  return bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+}
+
+async function embed(doc: PDFDocument, id: string, bytes: Uint8Array): Promise<PDFImage> {
+  if (isJpeg(bytes)) return doc.embedJpg(bytes);
+  if (isPng(bytes)) return doc.embedPng(bytes);
+  throw new Error(`Image ${id} is neither JPEG nor PNG and cannot be embedded`);
+}
+
+// Image rectangle (in trim mm) that maps the crop region onto the slot
+function placeCrop(img: PDFImage, slot: Rect, crop = FULL_CROP): Rect {
+  const c = coverCrop(crop, img.width, img.height, slot.width, slot.height);
+  const width = slot.width / c.width;
+  const height = slot.height / c.height;
+  return { x: slot.x - c.x * width, y: slot.y - c.y * height, width, height };
+}
+
+function drawCropMarks(page: PDFPage, spec: PageSpec, origin: number, color: Color) {
+  const { widthMm: w, heightMm: h, bleedMm: b } = spec;
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    page.drawLine({
+      start: { x: pt(origin + x1), y: pt(origin + y1) },
+      end: { x: pt(origin + x2), y: pt(origin + y2) },
+      thickness: MARK_THICKNESS_PT,
+      color,
+    });
+  const from = b + MARK_OFFSET_MM;
+  const to = from + MARK_LENGTH_MM;
+  for (const x of [0, w]) {
+    const dir = x === 0 ? -1 : 1;
+    for (const y of [0, h]) {
+      const dy = y === 0 ? -1 : 1;
+      line(x + dir * from, y, x + dir * to, y);
+      line(x, y + dy * from, x, y + dy * to);
+    }
+  }
+}
+
+// Standard fonts only encode WinAnsi: other characters fall back to their base letter or are dropped (emoji)
+function encodable(font: PDFFont, text: string) {
+  let out = "";
+  for (const ch of text) {
+    for (const candidate of [ch, ch.normalize("NFD").replace(/\p{M}/gu, ""), ""]) {
+      try {
+        font.encodeText(candidate);
+        out += candidate;
+        break;
+      } catch {
+        // try the next fallback
+      }
+    }
+  }
+  return out;
+}
+
+function wrap(font: PDFFont, text: string, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of encodable(font, paragraph).split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Single line, shortened with an ellipsis to fit
+function fitLine(font: PDFFont, text: string, size: number, maxWidth: number) {
+  let line = encodable(font, text.replace(/\s+/g, " ").trim());
+  if (font.widthOfTextAtSize(line, size) <= maxWidth) return line;
+  while (line && font.widthOfTextAtSize(`${line}…`, size) > maxWidth) line = line.slice(0, -1);
+  return `${line.trimEnd()}…`;
+}
+
+// Caption line centered in a rect (PDF coordinates)
+function drawCaption(page: PDFPage, text: string, r: Rect, font: PDFFont, size: number, color: Color) {
+  const line = fitLine(font, text, size, r.width);
+  const x = r.x + (r.width - font.widthOfTextAtSize(line, size)) / 2;
+  page.drawText(line, { x, y: r.y + (r.height - size * 0.7) / 2, size, font, color });
+}
+
+// Heading and body centered on the page, body in a narrower column
+function drawText(
+  page: PDFPage,
+  spec: PageSpec,
+  origin: number,
+  text: PageText,
+  fonts: Fonts,
+  color: Color
+) {
+  const content = contentBox(spec);
+  const sizes = TEXT_SIZES[text.role];
+  const headingSize = pt(spec.widthMm * sizes.heading);
+  const bodySize = pt(spec.widthMm * sizes.body);
+  const headingLines = wrap(fonts.heading, text.heading, headingSize, pt(content.width));
+  const { lineHeight: leading, bodyWidth, headingGap } = TEXT_LAYOUT;
+  const bodyLines = text.body ? wrap(fonts.body, text.body, bodySize, pt(content.width * bodyWidth)) : [];
+
+  const block =
+    headingLines.length * headingSize * leading +
+    (bodyLines.length ? headingSize * headingGap + bodyLines.length * bodySize * leading : 0);
+  const centerX = pt(origin + spec.widthMm / 2);
+  let top = pt(origin + spec.heightMm / 2) + block / 2;
+  const line = (value: string, font: PDFFont, size: number) => {
+    const lineHeight = size * leading;
+    const x = centerX - font.widthOfTextAtSize(value, size) / 2;
+    // Baseline within the line box, roughly where CSS puts it
+    page.drawText(value, { x, y: top - (lineHeight + size * 0.7) / 2, size, font, color });
+    top -= lineHeight;
+  };
+  for (const value of headingLines) line(value, fonts.heading, headingSize);
+  if (bodyLines.length) top -= headingSize * headingGap;
+  for (const value of bodyLines) line(value, fonts.body, bodySize);
+}
+
+function save(doc: PDFDocument) {
+  return doc.save({ useObjectStreams: false });
+}
+
+/**
+ * renderAlbumPdf
+ * Renders pages at exact trim size with bleed and optional crop marks. Each image's crop fills its
+ * photo area and is clipped to it. Images are embedded from the given bytes (JPEG/PNG) as they are: they
+ * must already be upright (see uprightForPrint) and enhanced (printFile). Theme colors, borders and captions
+ * follow the preview; text uses the standard PDF fonts.
+ * Spreads are drawn across two pages, each showing its half; pages are padded with blanks so spreads
+ * start on a left-hand page (see physicalPages). With `output`, the file is a vendor print file (see
+ * applyPrintOutput) and `files` must already be in the output's color space.
+ */
+export async function renderAlbumPdf(
+  { spec, theme, pages }: PdfRequest,
+  files: Map<string, Uint8Array>,
+  output?: PrintOutput
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  if (output) applyPrintOutput(doc, output);
+  const ink = inkFor(output);
+  const embedded = new Map<string, PDFImage>();
+  let fonts: Fonts | undefined;
+  const getFonts = async () =>
+    (fonts ??= {
+      heading: await doc.embedFont(THEME_FONTS[theme.font].heading),
+      body: await doc.embedFont(THEME_FONTS[theme.font].body),
+    });
+  const textColor = ink(theme.textColor);
+  const captionSize = pt(captionFontMm(spec));
+
+  const slug = spec.cropMarks ? MARK_OFFSET_MM + MARK_LENGTH_MM : 0;
+  const origin = spec.bleedMm + slug; // trim box offset from the media box corner
+
+  for (const { page: index, half } of physicalPages(pages.map((p) => ("items" in p ? p : {})))) {
+    // The right half of a spread shows its frame from the spine on
+    const shift = half === "right" ? spec.widthMm : 0;
+    // Flip to PDF coordinates (origin bottom-left, points)
+    const toPdf = (r: Rect) => ({
+      x: pt(origin + r.x - shift),
+      y: pt(origin + spec.heightMm - r.y - r.height),
+      width: pt(r.width),
+      height: pt(r.height),
+    });
+
+    const page = doc.addPage([pt(spec.widthMm + 2 * origin), pt(spec.heightMm + 2 * origin)]);
+    const bleedBox = [
+      pt(slug),
+      pt(slug),
+      pt(spec.widthMm + 2 * spec.bleedMm),
+      pt(spec.heightMm + 2 * spec.bleedMm),
+    ] as const;
+    page.setBleedBox(...bleedBox);
+    page.setTrimBox(pt(origin), pt(origin), pt(spec.widthMm), pt(spec.heightMm));
+
+    if (theme.background.toLowerCase() !== "#ffffff") {
+      // Extends into the bleed so trimming never leaves a white edge
+      const b = spec.bleedMm;
+      const bleed = { x: -b, y: -b, width: spec.widthMm + 2 * b, height: spec.heightMm + 2 * b };
+      page.drawRectangle({ ...toPdf({ ...bleed, x: bleed.x + shift }), color: ink(theme.background) });
+    }
+
+    const p = index == null ? undefined : pages[index];
+    if (!p || p.type === "blank") {
+      if (spec.cropMarks) drawCropMarks(page, spec, origin, ink(BLACK));
+      continue;
+    }
+    if (p.type === "text") {
+      drawText(page, spec, origin, p.text, await getFonts(), textColor);
+      if (spec.cropMarks) drawCropMarks(page, spec, origin, ink(BLACK));
+      continue;
+    }
+
+    // Spread slots run past this half's far bleed edge; nothing may reach the slug, where the crop marks are
+    page.pushOperators(pushGraphicsState(), rectangle(...bleedBox), clip(), endPath());
+    const slots = pageSlots(p.type, spec, p);
+    const footer: string[] = [];
+    for (const [i, { id, crop, caption }] of p.items.entries()) {
+      const slot = slots[i];
+      if (!slot) break;
+      if (caption && theme.captionPosition === "footer") footer.push(caption);
+      // Slots entirely on the other half of a spread
+      if (slot.x >= shift + spec.widthMm + spec.bleedMm || slot.x + slot.width <= shift - spec.bleedMm) continue;
+      const bytes = files.get(id);
+      if (!bytes) throw new Error(`Missing file for image ${id}`);
+      let img = embedded.get(id);
+      if (!img) {
+        img = await embed(doc, id, bytes);
+        embedded.set(id, img);
+      }
+      if (theme.border === "frame") page.drawRectangle({ ...toPdf(slot), color: ink(WHITE) });
+      const area = photoArea(slot, spec, theme, !!caption);
+      const a = toPdf(area);
+      page.pushOperators(pushGraphicsState(), rectangle(a.x, a.y, a.width, a.height), clip(), endPath());
+      page.drawImage(img, toPdf(placeCrop(img, area, crop)));
+      page.pushOperators(popGraphicsState());
+      if (theme.border === "line") {
+        page.drawRectangle({ ...a, borderColor: textColor, borderWidth: pt(LINE_WIDTH_MM) });
+      }
+
+      if (!caption || theme.captionPosition === "footer") continue;
+      const band = toPdf(captionRect(slot, spec, theme));
+      const { body } = await getFonts();
+      if (theme.captionPosition === "overlay") {
+        page.drawRectangle({ ...band, color: ink(BLACK), opacity: OVERLAY_OPACITY });
+        drawCaption(page, caption, band, body, captionSize, ink(WHITE));
+      } else {
+        drawCaption(page, caption, band, body, captionSize, textColor);
+      }
+    }
+    // Footer captions of a spread go under its left page
+    if (footer.length && half !== "right") {
+      drawCaption(page, footer.join(" · "), toPdf(footerRect(spec)), (await getFonts()).body, captionSize, textColor);
+    }
+    page.pushOperators(popGraphicsState());
+
+    if (spec.cropMarks) drawCropMarks(page, spec, origin, ink(BLACK));
+  }
+
+  return save(doc);
+}
+
+// Spines narrower than this carry no title
+const MIN_SPINE_TEXT_MM = 6;
+// Part of the front cover's content box below the photo that holds the title
+const COVER_TITLE_BAND = 0.14;
+
+export type CoverRequest = {
+  // Interior page spec; the cover sheet is two pages plus the spine wide
+  spec: PageSpec;
+  theme: AlbumTheme;
+  title: string;
+  spineMm: number;
+  // Board wrap or bleed around the cover, drawn as its bleed
+  wrapMm: number;
+  photo?: { id: string; crop?: Crop };
+};
+
+/**
+ * renderCoverPdf
+ * The cover as one sheet: back cover, spine and front cover from left to right. The front cover shows the
+ * photo and the title below it, the spine the title when it is wide enough. The theme background runs into
+ * the wrap; crop marks come with fold marks at both edges of the spine.
+ */
+export async function renderCoverPdf(
+  { spec, theme, title, spineMm, wrapMm, photo }: CoverRequest,
+  files: Map<string, Uint8Array>,
+  output?: PrintOutput
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  if (output) applyPrintOutput(doc, output);
+  const ink = inkFor(output);
+  const sheet: PageSpec = { ...spec, widthMm: 2 * spec.widthMm + spineMm, bleedMm: wrapMm };
+  const slug = spec.cropMarks ? MARK_OFFSET_MM + MARK_LENGTH_MM : 0;
+  const origin = wrapMm + slug;
+  const toPdf = (r: Rect) => ({
+    x: pt(origin + r.x),
+    y: pt(origin + sheet.heightMm - r.y - r.height),
+    width: pt(r.width),
+    height: pt(r.height),
+  });
+
+  const page = doc.addPage([pt(sheet.widthMm + 2 * origin), pt(sheet.heightMm + 2 * origin)]);
+  page.setBleedBox(pt(slug), pt(slug), pt(sheet.widthMm + 2 * wrapMm), pt(sheet.heightMm + 2 * wrapMm));
+  page.setTrimBox(pt(origin), pt(origin), pt(sheet.widthMm), pt(sheet.heightMm));
+  if (theme.background.toLowerCase() !== WHITE) {
+    const wrap = { x: -wrapMm, y: -wrapMm, width: sheet.widthMm + 2 * wrapMm, height: sheet.heightMm + 2 * wrapMm };
+    page.drawRectangle({ ...toPdf(wrap), color: ink(theme.background) });
+  }
+
+  const heading = await doc.embedFont(THEME_FONTS[theme.font].heading);
+  const textColor = ink(theme.textColor);
+  const front = contentBox(spec);
+  front.x += spec.widthMm + spineMm;
+  const band = front.height * COVER_TITLE_BAND;
+  const area = { ...front, height: front.height - (title ? band + spec.gutterMm : 0) };
+
+  if (photo) {
+    const bytes = files.get(photo.id);
+    if (!bytes) throw new Error(`Missing file for image ${photo.id}`);
+    const img = await embed(doc, photo.id, bytes);
+    const a = toPdf(area);
+    page.pushOperators(pushGraphicsState(), rectangle(a.x, a.y, a.width, a.height), clip(), endPath());
+    page.drawImage(img, toPdf(placeCrop(img, area, photo.crop)));
+    page.pushOperators(popGraphicsState());
+  }
+  if (title) {
+    const size = pt(spec.widthMm * TEXT_SIZES.title.heading);
+    const titleBand = { ...front, y: front.y + front.height - band, height: band };
+    drawCaption(page, title, toPdf(titleBand), heading, size, textColor);
+  }
+  if (title && spineMm >= MIN_SPINE_TEXT_MM) {
+    // Reads top to bottom, so the title is upright when the book lies face up
+    const size = pt(Math.min(spineMm * 0.5, spec.widthMm * TEXT_SIZES.chapter.heading));
+    const line = fitLine(heading, title, size, pt(spec.heightMm - 2 * spec.marginMm));
+    const width = heading.widthOfTextAtSize(line, size);
+    const x = pt(origin + spec.widthMm + spineMm / 2) - size * 0.35;
+    const y = pt(origin + spec.heightMm / 2) + width / 2;
+    page.drawText(line, { x, y, size, font: heading, color: textColor, rotate: degrees(-90) });
+  }
+
+  if (spec.cropMarks) {
+    drawCropMarks(page, sheet, origin, ink(BLACK));
+    // Fold marks at the spine edges, above and below the wrap
+    const from = wrapMm + MARK_OFFSET_MM;
+    for (const x of [spec.widthMm, spec.widthMm + spineMm]) {
+      for (const [y1, y2] of [
+        [-from, -from - MARK_LENGTH_MM],
+        [sheet.heightMm + from, sheet.heightMm + from + MARK_LENGTH_MM],
+      ]) {
+        page.drawLine({
+          start: { x: pt(origin + x), y: pt(origin + y1) },
+          end: { x: pt(origin + x), y: pt(origin + y2) },
+          thickness: MARK_THICKNESS_PT,
+          color: ink(BLACK),
+        });
+      }
+    }
+  }
+
+  return save(doc);
+}
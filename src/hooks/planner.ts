@@ -0,0 +1,204 @@
+"use server";
+
+import { z } from "zod";
+import { fitPages, type LayoutKind } from "@/hooks/layout";
+import { getProvider } from "@/hooks/models";
+import type { ProviderId } from "@/hooks/providers";
+import { describeFormat, type PageSpec } from "@/hooks/spec";
+import { LAYOUT_CAPACITY, LAYOUT_KINDS, LAYOUT_TEMPLATES } from "@/hooks/templates";
+import { orientationOf } from "@/hooks/validation";
+
+// Whole-album layout planning: the model sees every photo at once (caption, tags, orientation, time,
+// place, print quality) and decides which photos share a page, which become heroes and how many pages
+// the album gets. Per-photo layout votes can't do that, since a grid only makes sense with the photos
+// it is filled with. No images are sent.
+
+export type PhotoDigest = {
+  id: string;
+  width: number;
+  height: number;
+  summary?: string;
+  tags?: string[];
+  time?: string;
+  place?: string;
+  // The photo's own layout recommendation from analyzeImage
+  layout?: LayoutKind;
+  // Enough resolution to fill a whole page
+  heroOK: boolean;
+};
+
+export type PlannedPage = { type: LayoutKind; itemIds: string[]; spread?: boolean };
+
+export type PlanResult = { ok: true; pages: PlannedPage[] } | { ok: false; error: string };
+
+type PlanParams = {
+  // In album (chronological) order
+  photos: PhotoDigest[];
+  format: PageSpec;
+  // Page count of the automatic layout, as a guide for the model
+  targetPages: number;
+  // Automatic layout, returned by the offline provider
+  draft: PlannedPage[];
+  albumName?: string;
+  provider?: ProviderId;
+};
+
+// Photos are numbered from 1 in the prompt; ids would cost tokens and invite typos
+const planSchema = z.object({
+  pages: z.array(
+    z.object({
+      layout: z.enum(LAYOUT_KINDS),
+      photos: z.array(z.number().int()),
+      spread: z.boolean().optional(),
+    })
+  ),
+});
+
+type ModelPlan = z.infer<typeof planSchema>;
+
+// Plans that break the rules are sent back this often before they are repaired
+const MAX_REASKS = 1;
+
+const TEMPLATE_GUIDE = LAYOUT_KINDS.map(
+  (kind) => `- ${kind} (${LAYOUT_CAPACITY[kind]}): ${LAYOUT_TEMPLATES[kind].hint}`
+).join("\n");
+
+function describePhotos(photos: PhotoDigest[]) {
+  return photos
+    .map((p, i) => {
+      const facts = [
+        `${orientationOf(p.width, p.height)} ${p.width}x${p.height}`,
+        p.time?.slice(0, 16).replace("T", " "),
+        p.place,
+        p.heroOK ? "full page OK" : undefined,
+        p.layout ? `suggested ${p.layout}` : undefined,
+      ].filter(Boolean);
+      const tags = p.tags?.length ? ` [${p.tags.join(", ")}]` : "";
+      return `${i + 1}. ${facts.join(" · ")} — ${p.summary ?? "(no caption)"}${tags}`;
+    })
+    .join("\n");
+}
+
+/**
+ * checkPlan
+ * Pages of a model plan with photo numbers resolved, and the rules the plan breaks. Unknown and repeated
+ * photo numbers are dropped from the pages.
+ */
+function checkPlan(plan: ModelPlan, photos: PhotoDigest[]) {
+  const used = new Set<number>();
+  const violations: string[] = [];
+  const pages = plan.pages.map((p, i) => {
+    const idx = p.photos
+      .map((n) => n - 1)
+      .filter((n) => {
+        if (n < 0 || n >= photos.length) violations.push(`page ${i + 1} uses photo ${n + 1}, which does not exist`);
+        else if (used.has(n)) violations.push(`photo ${n + 1} is used more than once`);
+        else return used.add(n);
+        return false;
+      });
+    if (idx.length !== LAYOUT_CAPACITY[p.layout]) {
+      violations.push(`page ${i + 1}: ${p.layout} holds ${LAYOUT_CAPACITY[p.layout]} photos, not ${idx.length}`);
+    }
+    if (p.layout === "single" && idx.length === 1 && !photos[idx[0]].heroOK) {
+      violations.push(`page ${i + 1}: photo ${idx[0] + 1} is not sharp enough to fill a page`);
+    }
+    return { type: p.layout, idx, spread: p.spread };
+  });
+  const missing = photos.map((_, n) => n).filter((n) => !used.has(n));
+  if (missing.length) violations.push(`photos ${missing.map((n) => n + 1).join(", ")} are missing`);
+  return { pages, missing, violations };
+}
+
+/**
+ * repairPlan
+ * Makes a checked plan usable: pages whose photo count doesn't match their template get the best fitting
+ * template, missing photos are laid out automatically after the page of the photo before them, and photos
+ * that can't fill a page alone are laid out together with the next (or, last, the previous) page.
+ */
+function repairPlan({ pages, missing }: ReturnType<typeof checkPlan>, photos: PhotoDigest[]): PlannedPage[] {
+  const fit = (idx: number[]): { type: LayoutKind; idx: number[]; spread?: boolean }[] =>
+    fitPages(idx.map((n) => ({ n, ...photos[n] }))).map((f) => ({ type: f.type, idx: f.items.map((it) => it.n) }));
+  const res = pages
+    .filter((p) => p.idx.length > 0)
+    .flatMap((p) => (p.idx.length === LAYOUT_CAPACITY[p.type] ? [p] : fit(p.idx)));
+  // Consecutive missing photos stay together; later runs go first so insert positions stay valid
+  const runs: number[][] = [];
+  for (const n of missing) {
+    const last = runs[runs.length - 1];
+    if (last && last[last.length - 1] === n - 1) last.push(n);
+    else runs.push([n]);
+  }
+  for (const run of runs.reverse()) {
+    const after = res.findIndex((p) => p.idx.includes(run[0] - 1));
+    res.splice(after + 1, 0, ...fit(run));
+  }
+  for (let i = 0; i < res.length && res.length > 1; i++) {
+    const p = res[i];
+    if (p.type !== "single" || photos[p.idx[0]].heroOK) continue;
+    const at = i + 1 < res.length ? i : i - 1;
+    const merged = fit([...res[at].idx, ...res[at + 1].idx]);
+    res.splice(at, 2, ...merged);
+    // Continue after the merged pages, which may still end in a lone photo when the neighbour was full
+    i = at + merged.length - 1;
+  }
+  return res.map((p) => ({
+    type: p.type,
+    itemIds: p.idx.map((n) => photos[n].id),
+    ...(p.spread ? { spread: true } : {}),
+  }));
+}
+
+/**
+ * planAlbum
+ * Server Action: the model's page sequence for the given photos, checked and, where needed, repaired so
+ * every photo is placed exactly once. Errors are returned as values, as in tryAnalyzeImage.
+ */
+export async function planAlbum({
+  photos,
+  format,
+  targetPages,
+  draft,
+  albumName,
+  provider,
+}: PlanParams): Promise<PlanResult> {
+  if (photos.length === 0) return { ok: true, pages: [] };
+  const prompt = `You are the designer of a printed photo album${albumName ? ` called "${albumName}"` : ""} with
+${describeFormat(format)} pages. Plan its photo pages. Below are the photos in chronological order, numbered, with
+orientation and pixel size, capture time, place, whether they can fill a whole page, the layout suggested when
+each photo was looked at alone, caption and tags.
+
+Layout templates (photos per page): list a page's photos in slot order; the first slot is the large one where
+a template has one.
+${TEMPLATE_GUIDE}
+
+Rules:
+- Use every photo exactly once; a page holds exactly as many photos as its template.
+- Keep the chronological order. Photos on one page belong to the same moment or place.
+- Give the strongest photos the most space: a single page or the large slot. Only photos marked
+  "full page OK" may fill a single page.
+- spread: true lays a page across two facing pages; use it for wide panoramas and a few standout images.
+- About ${targetPages} pages suit these photos; use fewer or more where the story calls for it.
+
+Photos:
+${describePhotos(photos)}`;
+
+  const index = new Map(photos.map((p, n) => [p.id, n + 1]));
+  const offline = (): ModelPlan => ({
+    pages: draft.map((p) => ({ layout: p.type, photos: p.itemIds.map((id) => index.get(id) ?? 0), spread: p.spread })),
+  });
+
+  try {
+    const ai = getProvider(provider);
+    let checked = checkPlan(await ai.write({ prompt, schema: planSchema, offline }), photos);
+    for (let i = 0; i < MAX_REASKS && checked.violations.length > 0; i++) {
+      const reask = `${prompt}
+
+Your previous plan broke these rules. Plan again and fix them:
+${checked.violations.map((v) => `- ${v}`).join("\n")}`;
+      checked = checkPlan(await ai.write({ prompt: reask, schema: planSchema, offline }), photos);
+    }
+    return { ok: true, pages: repairPlan(checked, photos) };
+  } catch (err: unknown) {
+    return { ok: false, error: err instanceof Error ? err.message : "Failed to plan the album" };
+  }
+}
@@ -0,0 +1,213 @@
+import type { Adjustments } from "@/hooks/adjustments";
+import type { ImageAnalysis } from "@/hooks/ai";
+import type { CaptionSetting } from "@/hooks/captions";
+import type { LayoutKind, PagePlan } from "@/hooks/layout";
+import type { ProviderId } from "@/hooks/providers";
+import type { ImageSignature } from "@/hooks/similarity";
+import type { PageSpec } from "@/hooks/spec";
+import type { AlbumTheme } from "@/hooks/theme";
+
+// Local album store (IndexedDB): project metadata, per-image analysis state and the original files.
+// Files live in their own store so autosaving analysis/page state never rewrites the blobs.
+
+const DB_NAME = "photoalbum-creator";
+const DB_VERSION = 1;
+
+export type ProjectMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  // Manual page edits; undefined means pages are derived from the images by buildPages
+  pages?: PagePlan[];
+  // Album format; undefined means DEFAULT_PAGE_SPEC
+  format?: PageSpec;
+  // Analysis provider; undefined means the server default
+  provider?: ProviderId;
+  // Typography, colors and captions; undefined means DEFAULT_THEME
+  theme?: AlbumTheme;
+  // Print vendor profile id (see vendors.ts); undefined exports a plain PDF
+  vendor?: string;
+};
+
+export type PersistedImage = {
+  id: string;
+  file: File;
+  width: number;
+  height: number;
+  status: "pending" | "analyzing" | "done" | "error";
+  analysis?: ImageAnalysis;
+  error?: string;
+  signature?: ImageSignature;
+  // Explicit layout inclusion; undefined lets duplicate/burst detection decide
+  included?: boolean;
+  // Own caption; undefined follows the album theme's default
+  caption?: CaptionSetting;
+  // Manual enhancement; undefined applies the analysis suggestion, {} shows the original
+  edits?: Adjustments;
+  // EXIF of the original when the file was converted on upload (HEIC, RAW), which drops it
+  metadata?: Record<string, string>;
+  // 1-5 stars; undefined is unrated
+  rating?: number;
+  // Forced layout; undefined follows the analysis recommendation
+  layout?: LayoutKind;
+};
+
+type ImageRecord = Omit<PersistedImage, "file"> & { projectId: string; index: number };
+type FileRecord = { id: string; projectId: string; file: File };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore("projects", { keyPath: "id" });
+      db.createObjectStore("images", { keyPath: "id" }).createIndex("projectId", "projectId");
+      db.createObjectStore("files", { keyPath: "id" }).createIndex("projectId", "projectId");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Failed to open album store"));
+    };
+  });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+export async function listProjects(): Promise<ProjectMeta[]> {
+  const db = await openDb();
+  const all = await request(db.transaction("projects").objectStore("projects").getAll() as IDBRequest<ProjectMeta[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createProject(name: string): Promise<ProjectMeta> {
+  const now = Date.now();
+  const meta: ProjectMeta = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, imageCount: 0 };
+  const db = await openDb();
+  const tx = db.transaction("projects", "readwrite");
+  tx.objectStore("projects").put(meta);
+  await done(tx);
+  return meta;
+}
+
+/**
+ * saveProject
+ * Writes the project metadata and image state. New files are stored once; files and records of
+ * removed images are deleted. In-flight analyses are persisted as pending.
+ */
+export async function saveProject(meta: ProjectMeta, images: PersistedImage[]): Promise<ProjectMeta> {
+  const db = await openDb();
+  const tx = db.transaction(["projects", "images", "files"], "readwrite");
+  const projects = tx.objectStore("projects");
+  const imageStore = tx.objectStore("images");
+  const fileStore = tx.objectStore("files");
+
+  const [imageKeys, fileKeys] = await Promise.all([
+    request(imageStore.index("projectId").getAllKeys(meta.id)),
+    request(fileStore.index("projectId").getAllKeys(meta.id)),
+  ]);
+  const keep = new Set(images.map((it) => it.id));
+  for (const key of imageKeys) if (!keep.has(String(key))) imageStore.delete(key);
+  for (const key of fileKeys) if (!keep.has(String(key))) fileStore.delete(key);
+
+  const storedFiles = new Set(fileKeys.map(String));
+  images.forEach(({ file, ...it }, index) => {
+    const record: ImageRecord = {
+      ...it,
+      status: it.status === "analyzing" ? "pending" : it.status,
+      projectId: meta.id,
+      index,
+    };
+    imageStore.put(record);
+    if (!storedFiles.has(it.id)) fileStore.put({ id: it.id, projectId: meta.id, file } satisfies FileRecord);
+  });
+
+  const next: ProjectMeta = { ...meta, updatedAt: Date.now(), imageCount: images.length };
+  projects.put(next);
+  await done(tx);
+  return next;
+}
+
+export async function loadProject(id: string): Promise<{ meta: ProjectMeta; images: PersistedImage[] }> {
+  const db = await openDb();
+  const tx = db.transaction(["projects", "images", "files"]);
+  const [meta, records, files] = await Promise.all([
+    request(tx.objectStore("projects").get(id) as IDBRequest<ProjectMeta | undefined>),
+    request(tx.objectStore("images").index("projectId").getAll(id) as IDBRequest<ImageRecord[]>),
+    request(tx.objectStore("files").index("projectId").getAll(id) as IDBRequest<FileRecord[]>),
+  ]);
+  if (!meta) throw new Error(`Album ${id} not found`);
+
+  const byId = new Map(files.map((f) => [f.id, f.file]));
+  const images: PersistedImage[] = [];
+  for (const rec of records.sort((a, b) => a.index - b.index)) {
+    const file = byId.get(rec.id);
+    if (!file) continue;
+    const { id, width, height, status, analysis, error, signature, included, caption, edits, metadata } = rec;
+    const { rating, layout } = rec;
+    images.push({
+      id,
+      file,
+      width,
+      height,
+      status,
+      analysis,
+      error,
+      signature,
+      included,
+      caption,
+      edits,
+      metadata,
+      rating,
+      layout,
+    });
+  }
+  return { meta, images };
+}
+
+export async function duplicateProject(id: string): Promise<ProjectMeta> {
+  const { meta, images } = await loadProject(id);
+  const copy = await createProject(`${meta.name} (copy)`);
+  const idMap = new Map(images.map((it) => [it.id, crypto.randomUUID()]));
+  const remap = (x: string) => idMap.get(x) ?? x;
+  const pages = meta.pages?.map((p) => ({
+    ...p,
+    itemIds: p.itemIds.map(remap),
+    crops: p.crops && Object.fromEntries(Object.entries(p.crops).map(([x, crop]) => [remap(x), crop])),
+  }));
+  return saveProject(
+    { ...copy, pages },
+    images.map((it) => ({ ...it, id: idMap.get(it.id)! }))
+  );
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["projects", "images", "files"], "readwrite");
+  tx.objectStore("projects").delete(id);
+  for (const name of ["images", "files"]) {
+    const store = tx.objectStore(name);
+    const keys = await request(store.index("projectId").getAllKeys(id));
+    for (const key of keys) store.delete(key);
+  }
+  await done(tx);
+}
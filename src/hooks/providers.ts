@@ -0,0 +1,14 @@
+// Analysis providers selectable per project. Shared by the client (project settings) and the server
+// (see models.ts); implementations live server-side only.
+
+export const ANALYSIS_PROVIDERS = [
+  { id: "gemini", label: "Gemini" },
+  { id: "openaiCompatible", label: "OpenAI-compatible (e.g. Ollama)" },
+  { id: "mock", label: "Offline heuristic (no network)" },
+] as const;
+
+export type ProviderId = (typeof ANALYSIS_PROVIDERS)[number]["id"];
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return ANALYSIS_PROVIDERS.some((p) => p.id === value);
+}
@@ -0,0 +1,171 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { access, mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import {
+  isAlbumId,
+  publishedAlbumSchema,
+  VIEWER_WIDTHS,
+  viewerImageName,
+  type PublishedAlbum,
+  type PublishRequest,
+} from "@/hooks/viewer";
+
+// Published albums for the web viewer, as files (server only): one directory per album with album.json and
+// its photos at the viewer widths, named by content so republishing only adds what changed. The first publish
+// of an album issues its publish key; later publishes must present it, since the album id is in the shared
+// link. Only a hash of the key is stored.
+//
+//   ALBUM_STORE_DIR       default .data/albums
+//   ALBUM_MAX_UPLOAD_MB   largest publish request, default 500
+
+const VIEWER_JPEG_QUALITY = 82;
+const IMAGE_NAME = /^[0-9a-f]{32}-\d+\.jpg$/;
+
+function storeDir() {
+  return path.resolve(process.env.ALBUM_STORE_DIR || ".data/albums");
+}
+
+export function maxUploadBytes() {
+  return (Number(process.env.ALBUM_MAX_UPLOAD_MB) || 500) * 1024 * 1024;
+}
+
+function albumDir(id: string) {
+  if (!isAlbumId(id)) throw new Error("Invalid album id");
+  return path.join(storeDir(), id);
+}
+
+const sha256 = (data: string | Uint8Array) => createHash("sha256").update(data).digest();
+
+// Publishes in progress by album id; a publish removes the images it doesn't use, so they run one at a time
+const publishing = new Map<string, Promise<unknown>>();
+
+function serialized<T>(id: string, run: () => Promise<T>): Promise<T> {
+  const previous = publishing.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(run);
+  publishing.set(id, next);
+  // Forget the album once nothing is queued behind this publish
+  const done = () => {
+    if (publishing.get(id) === next) publishing.delete(id);
+  };
+  next.then(done, done);
+  return next;
+}
+
+// The album's publish key, issuing one on first publish; undefined when `key` doesn't match
+async function claim(dir: string, key: string | null): Promise<string | undefined> {
+  const file = path.join(dir, "publish.key");
+  let stored: Buffer | undefined;
+  try {
+    stored = Buffer.from(await readFile(file, "utf8"), "hex");
+  } catch {
+    stored = undefined;
+  }
+  if (!stored) {
+    const issued = randomBytes(32).toString("base64url");
+    await writeFile(file, sha256(issued).toString("hex"));
+    return issued;
+  }
+  return key && stored.length === 32 && timingSafeEqual(sha256(key), stored) ? key : undefined;
+}
+
+async function exists(file: string) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Upright photo at each viewer width, without metadata (no location leaves the machine)
+async function writeImages(dir: string, bytes: Uint8Array) {
+  const image = sha256(bytes).toString("hex").slice(0, 32);
+  const { autoOrient } = await sharp(bytes).metadata();
+  for (const width of VIEWER_WIDTHS) {
+    const file = path.join(dir, viewerImageName(image, width));
+    if (await exists(file)) continue;
+    const out = await sharp(bytes)
+      .autoOrient()
+      .resize({ width, withoutEnlargement: true })
+      .jpeg({ quality: VIEWER_JPEG_QUALITY, progressive: true })
+      .toBuffer();
+    await writeFile(file, out);
+  }
+  return { image, width: autoOrient.width, height: autoOrient.height };
+}
+
+/**
+ * publishAlbum
+ * Stores an album for the viewer, replacing an earlier copy. `files` holds the photos by id as they should
+ * be shown (enhancements applied); images no longer used are removed. `key` is the album's publish key, null on
+ * first publish; returns the album with its key, or undefined when the key doesn't match.
+ */
+export function publishAlbum(
+  id: string,
+  key: string | null,
+  request: PublishRequest,
+  files: Map<string, Uint8Array>
+): Promise<{ album: PublishedAlbum; key: string } | undefined> {
+  const dir = albumDir(id);
+  return serialized(id, async () => {
+    await mkdir(dir, { recursive: true });
+    const claimed = await claim(dir, key);
+    if (!claimed) return undefined;
+    return { album: await writeAlbum(dir, id, request, files), key: claimed };
+  });
+}
+
+async function writeAlbum(
+  dir: string,
+  id: string,
+  request: PublishRequest,
+  files: Map<string, Uint8Array>
+): Promise<PublishedAlbum> {
+  const imagesDir = path.join(dir, "images");
+  await mkdir(imagesDir, { recursive: true });
+
+  const photos: PublishedAlbum["photos"] = {};
+  // One photo at a time to bound memory
+  for (const [photoId, bytes] of files) {
+    try {
+      photos[photoId] = await writeImages(imagesDir, bytes);
+    } catch {
+      throw new Error(`Photo ${photoId} could not be read`);
+    }
+  }
+  const album: PublishedAlbum = { ...request, id, publishedAt: new Date().toISOString(), photos };
+
+  // Replaced in one step, so the viewer never reads a half-written album
+  const temp = path.join(dir, `album.${randomUUID()}.json`);
+  await writeFile(temp, JSON.stringify(album));
+  await rename(temp, path.join(dir, "album.json"));
+
+  const used = new Set(
+    Object.values(photos).flatMap(({ image }) => VIEWER_WIDTHS.map((w) => viewerImageName(image, w)))
+  );
+  for (const name of await readdir(imagesDir)) {
+    if (!used.has(name)) await rm(path.join(imagesDir, name), { force: true });
+  }
+  return album;
+}
+
+export async function readPublishedAlbum(id: string): Promise<PublishedAlbum | undefined> {
+  if (!isAlbumId(id)) return undefined;
+  try {
+    const raw = await readFile(path.join(albumDir(id), "album.json"), "utf8");
+    const parsed = publishedAlbumSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readPublishedImage(id: string, name: string): Promise<Uint8Array | undefined> {
+  if (!isAlbumId(id) || !IMAGE_NAME.test(name)) return undefined;
+  try {
+    return new Uint8Array(await readFile(path.join(albumDir(id), "images", name)));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import { straightenScale } from "@/hooks/adjustments";
+import { effectiveDpi, FULL_CROP, type Crop } from "@/hooks/crop";
+import type { LayoutItem, PagePlan } from "@/hooks/layout";
+import type { PageSpec } from "@/hooks/spec";
+import { pageSlots } from "@/hooks/spreads";
+import { DEFAULT_THEME, photoArea, type AlbumTheme } from "@/hooks/theme";
+
+// Print quality of a placed photo, from its effective resolution in the slot (after crop/zoom)
+
+export const GOOD_DPI = 300;
+export const ACCEPTABLE_DPI = 200;
+
+export type PrintQuality = "good" | "acceptable" | "poor";
+
+export type Placement = {
+  page: number;
+  slot: number;
+  itemId: string;
+  dpi: number;
+  quality: PrintQuality;
+};
+
+export function classifyDpi(dpi: number): PrintQuality {
+  if (dpi >= GOOD_DPI) return "good";
+  if (dpi >= ACCEPTABLE_DPI) return "acceptable";
+  return "poor";
+}
+
+// Pixels needed along each side to print `mm` at the given resolution
+export function pixelsFor(mm: number, dpi = GOOD_DPI) {
+  return Math.round((mm / 25.4) * dpi);
+}
+
+/**
+ * preflight
+ * Effective DPI of every photo in its actual slot, given the album format and each image's crop. Frames
+ * and captions below the photo shrink the area it prints in; full-bleed and spread pages enlarge it.
+ * Straightening enlarges the photo to hide its corners, so it lowers the resolution too.
+ */
+export function preflight(
+  pages: PagePlan[],
+  items: LayoutItem[],
+  spec: PageSpec,
+  cropOf: (page: PagePlan, item: LayoutItem) => Crop = () => FULL_CROP,
+  theme: AlbumTheme = DEFAULT_THEME
+): Placement[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const res: Placement[] = [];
+  pages.forEach((p, page) => {
+    if (p.type === "text") return;
+    const slots = pageSlots(p.type, spec, p);
+    p.itemIds.forEach((itemId, slot) => {
+      const it = byId.get(itemId);
+      const rect = slots[slot];
+      if (!it || !rect) return;
+      const area = photoArea(rect, spec, theme, !!it.caption);
+      const straighten = it.adjustments?.straighten;
+      const grow = straighten ? straightenScale(it.width, it.height, (straighten * Math.PI) / 180) : 1;
+      const dpi = effectiveDpi(it.width, it.height, cropOf(p, it), area.width, area.height) / grow;
+      res.push({ page, slot, itemId, dpi, quality: classifyDpi(dpi) });
+    });
+  });
+  return res;
+}
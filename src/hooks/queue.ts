@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Client-side job queue for image analysis: bounded concurrency, exponential backoff for
+// retryable failures (429/5xx), pause/resume/cancel and progress with an ETA.
+
+export type JobResult<T> = { ok: true; value: T } | { ok: false; error: string; retryable: boolean };
+
+export type QueueOptions = {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+};
+
+export type QueueHandlers<T> = {
+  onStart: (id: string) => void;
+  onDone: (id: string, value: T) => void;
+  onError: (id: string, error: string) => void;
+  // Called for jobs dropped by cancel() that had already started
+  onCancel: (ids: string[]) => void;
+};
+
+export type QueueProgress = {
+  status: "idle" | "running" | "paused";
+  total: number;
+  done: number;
+  failed: number;
+  active: number;
+  etaMs?: number;
+};
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = { concurrency: 3, maxRetries: 4, baseDelayMs: 1000 };
+
+const MAX_DELAY_MS = 30_000;
+
+export function backoffDelay(attempt: number, baseDelayMs: number) {
+  const exp = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** attempt);
+  // Equal jitter (half fixed, half random) so parallel jobs don't retry in lockstep
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+/**
+ * useAnalysisQueue
+ * `run` performs one job; it should resolve with a JobResult rather than throw. Jobs already
+ * queued or running are not enqueued twice.
+ */
+export function useAnalysisQueue<T>(
+  run: (id: string) => Promise<JobResult<T>>,
+  handlers: QueueHandlers<T>,
+  options: QueueOptions = DEFAULT_QUEUE_OPTIONS
+) {
+  const [progress, setProgress] = useState<QueueProgress>({ status: "idle", total: 0, done: 0, failed: 0, active: 0 });
+
+  // Mutable queue state lives in a ref; `progress` is a rendered snapshot of it
+  const state = useRef({
+    pending: [] as string[],
+    active: new Set<string>(),
+    waiting: new Map<string, ReturnType<typeof setTimeout>>(),
+    attempts: new Map<string, number>(),
+    paused: false,
+    generation: 0,
+    total: 0,
+    done: 0,
+    failed: 0,
+    startedAt: 0,
+    busyMs: 0,
+  });
+  const latest = useRef({ run, handlers, options });
+  useEffect(() => {
+    latest.current = { run, handlers, options };
+  });
+
+  const sync = useCallback(() => {
+    const s = state.current;
+    const finished = s.done + s.failed;
+    const remaining = s.total - finished;
+    const idle = remaining === 0 && s.active.size === 0;
+    // Average wall time per finished job, measured while the queue was running
+    const perJob = finished > 0 ? (s.busyMs + (s.startedAt ? Date.now() - s.startedAt : 0)) / finished : undefined;
+    setProgress({
+      status: idle ? "idle" : s.paused ? "paused" : "running",
+      total: s.total,
+      done: s.done,
+      failed: s.failed,
+      active: s.active.size,
+      etaMs: perJob != null && remaining > 0 ? perJob * remaining : undefined,
+    });
+    if (idle) {
+      s.total = s.done = s.failed = s.busyMs = 0;
+      s.startedAt = 0;
+    }
+  }, []);
+
+  const pump = useCallback(() => {
+    const s = state.current;
+    const { run, handlers, options } = latest.current;
+    if (!s.startedAt && !s.paused && s.pending.length) s.startedAt = Date.now();
+    while (!s.paused && s.active.size < options.concurrency && s.pending.length) {
+      const id = s.pending.shift()!;
+      const generation = s.generation;
+      s.active.add(id);
+      handlers.onStart(id);
+      run(id)
+        .catch((err: unknown): JobResult<T> => ({
+          ok: false,
+          error: err instanceof Error ? err.message : "Unknown error",
+          retryable: false,
+        }))
+        .then((res) => {
+          if (generation !== s.generation) return;
+          s.active.delete(id);
+          const { handlers, options } = latest.current;
+          if (res.ok) {
+            s.done += 1;
+            handlers.onDone(id, res.value);
+          } else {
+            const attempt = s.attempts.get(id) ?? 0;
+            if (res.retryable && attempt < options.maxRetries) {
+              s.attempts.set(id, attempt + 1);
+              s.waiting.set(
+                id,
+                setTimeout(() => {
+                  s.waiting.delete(id);
+                  s.pending.unshift(id);
+                  pump();
+                }, backoffDelay(attempt, options.baseDelayMs))
+              );
+            } else {
+              s.failed += 1;
+              handlers.onError(id, res.error);
+            }
+          }
+          pump();
+        });
+    }
+    sync();
+  }, [sync]);
+
+  const enqueue = useCallback(
+    (ids: string[]) => {
+      const s = state.current;
+      const fresh = ids.filter((id) => !s.pending.includes(id) && !s.active.has(id) && !s.waiting.has(id));
+      for (const id of fresh) s.attempts.delete(id);
+      s.pending.push(...fresh);
+      s.total += fresh.length;
+      pump();
+    },
+    [pump]
+  );
+
+  const pause = useCallback(() => {
+    const s = state.current;
+    s.paused = true;
+    if (s.startedAt) s.busyMs += Date.now() - s.startedAt;
+    s.startedAt = 0;
+    sync();
+  }, [sync]);
+
+  const resume = useCallback(() => {
+    state.current.paused = false;
+    pump();
+  }, [pump]);
+
+  const cancel = useCallback(() => {
+    const s = state.current;
+    const dropped = [...s.active, ...s.waiting.keys(), ...s.pending];
+    for (const timer of s.waiting.values()) clearTimeout(timer);
+    s.waiting.clear();
+    s.pending = [];
+    s.active.clear();
+    s.paused = false;
+    s.generation += 1;
+    s.total = s.done + s.failed;
+    latest.current.handlers.onCancel(dropped);
+    sync();
+  }, [sync]);
+
+  useEffect(() => {
+    const s = state.current;
+    return () => {
+      for (const timer of s.waiting.values()) clearTimeout(timer);
+    };
+  }, []);
+
+  return { progress, enqueue, pause, resume, cancel };
+}
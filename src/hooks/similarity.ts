@@ -0,0 +1,174 @@
+import { getAnalysisDerivative } from "@/hooks/derivative";
+
+// Near-duplicate and burst detection. Each image gets a signature (perceptual dHash plus sharpness
+// and exposure scores, computed on the analysis derivative); similar images are grouped and all but
+// the best frame are left out of the layout unless the user opts them back in.
+
+export type ImageSignature = {
+  // 64-bit difference hash as 16 hex digits
+  hash: string;
+  // Variance of the Laplacian on a small grayscale copy; only comparable within a group
+  sharpness: number;
+  // 0..1, 1 = mid-tone mean with no clipped pixels
+  exposure: number;
+  // EXIF capture time (ISO), so bursts can be grouped before analysis
+  time?: string;
+};
+
+export type SimilarGroup = {
+  kind: "duplicate" | "burst";
+  ids: string[];
+  bestId: string;
+};
+
+// Hamming distances (out of 64 bits)
+export const NEAR_DUPLICATE_DISTANCE = 6;
+export const BURST_DISTANCE = 16;
+export const BURST_WINDOW_MS = 10_000;
+
+const SAMPLE_EDGE = 128;
+
+function grayscale(bitmap: ImageBitmap, width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return gray;
+}
+
+function differenceHash(bitmap: ImageBitmap) {
+  const gray = grayscale(bitmap, 9, 8);
+  let hex = "";
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (gray[row * 9 + col] > gray[row * 9 + col + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function sharpnessAndExposure(bitmap: ImageBitmap) {
+  const scale = SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height);
+  const w = Math.max(3, Math.round(bitmap.width * scale));
+  const h = Math.max(3, Math.round(bitmap.height * scale));
+  const gray = grayscale(bitmap, w, h);
+
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - w] + gray[i + w] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  const sharpness = sumSq / n - (sum / n) ** 2;
+
+  let mean = 0;
+  let clipped = 0;
+  for (const v of gray) {
+    mean += v;
+    if (v < 0.02 || v > 0.98) clipped++;
+  }
+  mean /= gray.length;
+  const exposure = Math.max(0, 1 - Math.abs(mean - 0.5) * 2 - (clipped / gray.length) * 2);
+
+  return { sharpness, exposure };
+}
+
+/**
+ * computeSignature
+ * Perceptual hash, sharpness and exposure of an upload, from its (cached) analysis derivative.
+ */
+export async function computeSignature(file: Blob, exif?: Record<string, string>): Promise<ImageSignature> {
+  const { blob, metadata } = await getAnalysisDerivative(file, exif);
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  try {
+    return { hash: differenceHash(bitmap), ...sharpnessAndExposure(bitmap), time: metadata.time };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function hammingDistance(a: string, b: string) {
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (x) {
+      bits += x & 1;
+      x >>= 1;
+    }
+  }
+  return bits;
+}
+
+// Sharpness relative to the group's sharpest frame dominates; exposure breaks near-ties
+function bestOf(ids: string[], signatures: Map<string, ImageSignature>) {
+  const maxSharpness = Math.max(...ids.map((id) => signatures.get(id)!.sharpness)) || 1;
+  const score = (id: string) => {
+    const s = signatures.get(id)!;
+    return (s.sharpness / maxSharpness) * 0.7 + s.exposure * 0.3;
+  };
+  return ids.reduce((best, id) => (score(id) > score(best) ? id : best));
+}
+
+/**
+ * groupSimilar
+ * Near-duplicates (hash distance ≤ NEAR_DUPLICATE_DISTANCE, any time) and bursts (≤ BURST_DISTANCE
+ * and shot within BURST_WINDOW_MS) are merged transitively. Returns groups of two or more, in input order.
+ */
+export function groupSimilar(entries: { id: string; signature?: ImageSignature }[]): SimilarGroup[] {
+  const signed = entries.filter((e): e is { id: string; signature: ImageSignature } => !!e.signature);
+  const parent = signed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const bursts = new Set<number>();
+
+  for (let i = 0; i < signed.length; i++) {
+    for (let j = i + 1; j < signed.length; j++) {
+      const a = signed[i].signature;
+      const b = signed[j].signature;
+      const distance = hammingDistance(a.hash, b.hash);
+      const gap = a.time && b.time ? Math.abs(Date.parse(a.time) - Date.parse(b.time)) : Infinity;
+      const burst = gap <= BURST_WINDOW_MS && distance <= BURST_DISTANCE;
+      if (!burst && distance > NEAR_DUPLICATE_DISTANCE) continue;
+      if (burst) bursts.add(i).add(j);
+      parent[find(j)] = find(i);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  signed.forEach((_, i) => members.set(find(i), [...(members.get(find(i)) ?? []), i]));
+  const signatures = new Map(signed.map((e) => [e.id, e.signature]));
+  return [...members.values()]
+    .filter((idx) => idx.length > 1)
+    .map((idx) => {
+      const ids = idx.map((i) => signed[i].id);
+      return { kind: idx.some((i) => bursts.has(i)) ? "burst" : "duplicate", ids, bestId: bestOf(ids, signatures) };
+    });
+}
+
+/**
+ * excludedIds
+ * Images left out of the layout: explicit `included: false`, plus non-best group members the user
+ * hasn't opted back in.
+ */
+export function excludedIds(groups: SimilarGroup[], items: { id: string; included?: boolean }[]) {
+  const included = new Map(items.map((it) => [it.id, it.included]));
+  const res = new Set(items.filter((it) => it.included === false).map((it) => it.id));
+  for (const g of groups) {
+    for (const id of g.ids) if (id !== g.bestId && included.get(id) === undefined) res.add(id);
+  }
+  return res;
+}
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { cropSchema } from "@/hooks/crop";
+import type { Rect } from "@/hooks/layout";
+import { LAYOUT_KINDS, MAX_GRID_CELLS } from "@/hooks/templates";
+import { DEFAULT_THEME, themeSchema } from "@/hooks/theme";
+
+// Print page specification and the PDF export request, shared by the client and the /api/pdf route
+
+// A spread of the largest pages with bleed, crop marks or a cover wrap stays well inside PDF's 5080 mm
+// (14400 pt) page size limit
+export const MAX_PAGE_MM = 1000;
+export const MAX_BLEED_MM = 25;
+
+export const pageSpecSchema = z
+  .object({
+    widthMm: z.number().positive().max(MAX_PAGE_MM),
+    heightMm: z.number().positive().max(MAX_PAGE_MM),
+    marginMm: z.number().min(0),
+    gutterMm: z.number().min(0),
+    bleedMm: z.number().min(0).max(MAX_BLEED_MM),
+    cropMarks: z.boolean(),
+  })
+  .refine((spec) => !specProblem(spec), { error: (issue) => specProblem(issue.input as PageSpec) });
+
+export type PageSpec = z.infer<typeof pageSpecSchema>;
+
+export const DEFAULT_PAGE_SPEC: PageSpec = {
+  widthMm: 300,
+  heightMm: 300,
+  marginMm: 16,
+  gutterMm: 8,
+  bleedMm: 3,
+  cropMarks: true,
+};
+
+export type AlbumFormat = { id: string; label: string; spec: PageSpec };
+
+// Album formats selectable per project; any other size is a custom format
+export const ALBUM_FORMATS: AlbumFormat[] = [
+  { id: "square30", label: "Square 30×30 cm", spec: DEFAULT_PAGE_SPEC },
+  { id: "a4Portrait", label: "A4 portrait", spec: { ...DEFAULT_PAGE_SPEC, widthMm: 210, heightMm: 297, marginMm: 12, gutterMm: 6 } },
+  { id: "a4Landscape", label: "A4 landscape", spec: { ...DEFAULT_PAGE_SPEC, widthMm: 297, heightMm: 210, marginMm: 12, gutterMm: 6 } },
+  { id: "landscape20x30", label: "Landscape 30×20 cm", spec: { ...DEFAULT_PAGE_SPEC, widthMm: 300, heightMm: 200, marginMm: 12, gutterMm: 6 } },
+];
+
+export function findFormat(spec: PageSpec): AlbumFormat | undefined {
+  return ALBUM_FORMATS.find((f) => (Object.keys(spec) as (keyof PageSpec)[]).every((k) => f.spec[k] === spec[k]));
+}
+
+// Human readable size for prompts and labels, e.g. "30cm x 20cm landscape"
+export function describeFormat(spec: PageSpec): string {
+  const shape = spec.widthMm === spec.heightMm ? "square" : spec.widthMm > spec.heightMm ? "landscape" : "portrait";
+  return `${spec.widthMm / 10}cm x ${spec.heightMm / 10}cm ${shape}`;
+}
+
+// Printable area inside the margins, in mm from the trim's top-left corner
+export function contentBox(spec: PageSpec): Rect {
+  return {
+    x: spec.marginMm,
+    y: spec.marginMm,
+    width: spec.widthMm - 2 * spec.marginMm,
+    height: spec.heightMm - 2 * spec.marginMm,
+  };
+}
+
+/**
+ * specProblem
+ * What keeps a format from holding photos, or undefined: the margins must leave a content box, and the
+ * gutters of the template with the most cells must fit inside it.
+ */
+export function specProblem(spec: PageSpec): string | undefined {
+  const box = contentBox(spec);
+  if (box.width <= 0 || box.height <= 0) return "Margins leave no room on the page";
+  if ((MAX_GRID_CELLS - 1) * spec.gutterMm >= Math.min(box.width, box.height)) {
+    return "Gutter is too wide for the page";
+  }
+  return undefined;
+}
+
+export const pageTextSchema = z.object({
+  role: z.enum(["title", "chapter"]),
+  heading: z.string().max(200),
+  body: z.string().max(2000).optional(),
+});
+
+// Pages as sent to the server: photos by file id with their crop and caption text resolved
+export const photoPageRequestSchema = z.object({
+  type: z.enum(LAYOUT_KINDS),
+  items: z
+    .array(z.object({ id: z.string(), crop: cropSchema.optional(), caption: z.string().max(300).optional() }))
+    .min(1),
+  spread: z.boolean().optional(),
+  fullBleed: z.boolean().optional(),
+});
+
+export const textPageRequestSchema = z.object({ type: z.literal("text"), text: pageTextSchema });
+
+export const pdfRequestSchema = z.object({
+  spec: pageSpecSchema.default(DEFAULT_PAGE_SPEC),
+  theme: themeSchema.default(DEFAULT_THEME),
+  pages: z.array(
+    z.discriminatedUnion("type", [
+      photoPageRequestSchema,
+      textPageRequestSchema,
+      // Padding for a vendor's page count
+      z.object({ type: z.literal("blank") }),
+    ])
+  ),
+  // Print files for a vendor profile (see vendors.ts) instead of a single PDF
+  print: z
+    .object({
+      vendor: z.string(),
+      title: z.string().max(200),
+      // Creation date of the files; it comes with the request so the output stays reproducible
+      createdAt: z.iso.datetime(),
+      // Front cover photo
+      cover: z.object({ id: z.string(), crop: cropSchema.optional() }).optional(),
+    })
+    .optional(),
+});
+
+export type PdfRequest = z.infer<typeof pdfRequestSchema>;
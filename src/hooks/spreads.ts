@@ -0,0 +1,105 @@
+import { coverCrop, FULL_CROP, type Crop } from "@/hooks/crop";
+import { slotRects, type LayoutItem, type LayoutKind, type PagePlan, type Rect } from "@/hooks/layout";
+import { contentBox, type PageSpec } from "@/hooks/spec";
+import { DEFAULT_THEME, photoArea, type AlbumTheme } from "@/hooks/theme";
+
+// Facing pages as the album is bound. Page 1 is a right-hand page; after it pages pair up left and
+// right. A spread covers a left and a right page, so when it would start on a right-hand page a blank
+// page goes before it. Spread geometry is in mm from the left page's trim corner; the spine is at
+// x = spec.widthMm.
+
+// Band on each side of the spine where subjects disappear into the binding
+export const BINDING_SAFE_MM = 12;
+
+export type PageOptions = { spread?: boolean; fullBleed?: boolean };
+
+// One printed page: a page of the plan, one half of a spread, or a blank page (page null)
+export type PhysicalPage = { page: number | null; half?: "left" | "right" };
+
+// Left and right side of the album opened at one place; undefined is the inside of the cover
+export type Opening = [PhysicalPage | undefined, PhysicalPage | undefined];
+
+export function physicalPages(pages: PageOptions[]): PhysicalPage[] {
+  const res: PhysicalPage[] = [];
+  pages.forEach((p, page) => {
+    if (!p.spread) {
+      res.push({ page });
+      return;
+    }
+    // Left-hand pages have even page numbers
+    if (res.length % 2 === 0) res.push({ page: null });
+    res.push({ page, half: "left" }, { page, half: "right" });
+  });
+  return res;
+}
+
+/**
+ * openings
+ * Physical pages paired as the bound album opens: the first page faces the inside of the cover,
+ * so its left side is empty.
+ */
+export function openings(physical: PhysicalPage[]): Opening[] {
+  const sides = [undefined, ...physical];
+  const res: Opening[] = [];
+  for (let i = 0; i < sides.length; i += 2) res.push([sides[i], sides[i + 1]]);
+  return res;
+}
+
+// Page numbers of the i-th opening, e.g. "Pages 2–3"
+export function openingLabel(index: number, [, right]: Opening) {
+  return index === 0 ? "Page 1" : right ? `Pages ${2 * index}–${2 * index + 1}` : `Page ${2 * index}`;
+}
+
+// The area a page is laid out on: its trim, or both trims of a spread
+export function frameBox(spec: PageSpec, spread?: boolean): Rect {
+  return { x: 0, y: 0, width: spread ? 2 * spec.widthMm : spec.widthMm, height: spec.heightMm };
+}
+
+/**
+ * pageSlots
+ * Slot rectangles of a photo page inside its frame. Full-bleed pages lay the template over the whole
+ * frame plus the bleed, so outer slots run off the trim edge instead of stopping at the margin.
+ */
+export function pageSlots(type: LayoutKind, spec: PageSpec, { spread, fullBleed }: PageOptions): Rect[] {
+  const frame = frameBox(spec, spread);
+  const b = spec.bleedMm;
+  const box = fullBleed
+    ? { x: -b, y: -b, width: frame.width + 2 * b, height: frame.height + 2 * b }
+    : contentBox({ ...spec, widthMm: frame.width });
+  return slotRects(type, box, spec.gutterMm);
+}
+
+export type GutterWarning = { page: number; slot: number; itemId: string };
+
+/**
+ * gutterWarnings
+ * Photos on spreads whose main subject (the AI focal point) ends up within BINDING_SAFE_MM of the spine.
+ * Photos without a focal point are not checked.
+ */
+export function gutterWarnings(
+  pages: PagePlan[],
+  items: LayoutItem[],
+  spec: PageSpec,
+  cropOf: (page: PagePlan, item: LayoutItem) => Crop = () => FULL_CROP,
+  theme: AlbumTheme = DEFAULT_THEME
+): GutterWarning[] {
+  const byId = new Map(items.map((it) => [it.id, it]));
+  const res: GutterWarning[] = [];
+  pages.forEach((p, page) => {
+    if (p.type === "text" || !p.spread) return;
+    const slots = pageSlots(p.type, spec, p);
+    p.itemIds.forEach((itemId, slot) => {
+      const it = byId.get(itemId);
+      const rect = slots[slot];
+      const focal = it?.analysis?.focalPoint;
+      if (!it || !rect || !focal) return;
+      const area = photoArea(rect, spec, theme, !!it.caption);
+      const visible = coverCrop(cropOf(p, it), it.width, it.height, area.width, area.height);
+      // Subject cropped away
+      if (focal.x < visible.x || focal.x > visible.x + visible.width) return;
+      const x = area.x + ((focal.x - visible.x) / visible.width) * area.width;
+      if (Math.abs(x - spec.widthMm) < BINDING_SAFE_MM) res.push({ page, slot, itemId });
+    });
+  });
+  return res;
+}
@@ -0,0 +1,205 @@
+"use server";
+
+import { z } from "zod";
+import { getProvider } from "@/hooks/models";
+import type { PageText, TextRole } from "@/hooks/layout";
+import type { ProviderId } from "@/hooks/providers";
+
+// Title and chapter pages, written from what is in the album: the ordered photo pages with each
+// photo's caption, tags, time and place. No images are sent.
+
+export type PageDigest = {
+  photos: { summary?: string; tags?: string[]; time?: string; place?: string }[];
+};
+
+// `beforePage` indexes the digest; title pages have none and go first
+export type TextSuggestion = { beforePage?: number; text: PageText };
+
+export type SuggestResult = { ok: true; pages: TextSuggestion[] } | { ok: false; error: string };
+export type RewriteResult = { ok: true; text: PageText } | { ok: false; error: string };
+
+type StoryParams = {
+  pages: PageDigest[];
+  albumName?: string;
+  provider?: ProviderId;
+};
+
+const textSchema = z.object({ heading: z.string(), body: z.string().optional() });
+const proposalSchema = z.object({
+  title: textSchema,
+  chapters: z.array(textSchema.extend({ beforePage: z.number().int() })).default([]),
+});
+
+const MAX_HEADING = 80;
+const MAX_BODY = 400;
+
+const RULES = `- heading: at most 6 words, no quotes, no emoji.
+- body: optional, one or two short sentences that introduce what follows. Warm but factual; only use
+  places, dates and subjects that appear in the page list.`;
+
+function clean({ heading, body }: { heading: string; body?: string }) {
+  const trimmedBody = body?.trim().slice(0, MAX_BODY);
+  return { heading: heading.trim().slice(0, MAX_HEADING), body: trimmedBody || undefined };
+}
+
+function day(time: string | undefined) {
+  return time?.slice(0, 10);
+}
+
+function formatDay(iso: string, opts: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat("en-US", { ...opts, timeZone: "UTC" }).format(new Date(iso));
+}
+
+// Most frequent city-level place of a set of photos
+function mainPlace(photos: PageDigest["photos"]) {
+  const counts = new Map<string, number>();
+  for (const p of photos) if (p.place) counts.set(p.place, (counts.get(p.place) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function city(place: string | undefined) {
+  return place?.split(",")[0];
+}
+
+function dateRange(photos: PageDigest["photos"]) {
+  const days = photos.map((p) => day(p.time)).filter((d): d is string => !!d).sort();
+  if (days.length === 0) return undefined;
+  const from = formatDay(days[0], { month: "long", year: "numeric" });
+  const to = formatDay(days[days.length - 1], { month: "long", year: "numeric" });
+  return from === to ? from : `${from} – ${to}`;
+}
+
+function describePages(pages: PageDigest[]) {
+  return pages
+    .map((page, i) => {
+      const days = [...new Set(page.photos.map((p) => day(p.time)).filter(Boolean))];
+      const places = [...new Set(page.photos.map((p) => p.place).filter(Boolean))];
+      const header = [`Page ${i + 1}`, ...days, ...places].join(" · ");
+      const photos = page.photos.map(
+        (p) => `  - ${p.summary ?? "(no caption)"}${p.tags?.length ? ` [${p.tags.join(", ")}]` : ""}`
+      );
+      return [header, ...photos].join("\n");
+    })
+    .join("\n");
+}
+
+function offlineTitle(pages: PageDigest[], albumName: string | undefined, attempt = 0): PageText {
+  const photos = pages.flatMap((p) => p.photos);
+  const cities = [...new Set(photos.map((p) => city(p.place)).filter((c): c is string => !!c))];
+  const range = dateRange(photos);
+  const candidates = [
+    albumName && !albumName.startsWith("Untitled") ? albumName : undefined,
+    cities.length ? cities.slice(0, 2).join(" & ") : undefined,
+    range,
+    "Our Album",
+  ].filter((c): c is string => !!c);
+  const heading = candidates[attempt % candidates.length];
+  return { role: "title", heading, body: heading === range ? undefined : range };
+}
+
+// Chapters open where the main place of consecutive pages changes, or the day when no places are known
+function offlineChapters(pages: PageDigest[]): TextSuggestion[] {
+  const hasPlaces = pages.some((p) => mainPlace(p.photos));
+  const key = (p: PageDigest) => (hasPlaces ? mainPlace(p.photos) : day(p.photos.find((x) => x.time)?.time));
+  const res: TextSuggestion[] = [];
+  let prev = pages[0] && key(pages[0]);
+  pages.forEach((page, i) => {
+    const k = key(page);
+    if (i > 0 && k && prev && k !== prev) res.push({ beforePage: i, text: offlineChapter(pages, i) });
+    if (k) prev = k;
+  });
+  // A chapter for every page is noise
+  return res.length > pages.length / 2 ? [] : res;
+}
+
+function offlineChapter(pages: PageDigest[], at: number, attempt = 0): PageText {
+  const photos = pages[at]?.photos ?? [];
+  const place = city(mainPlace(photos));
+  const first = photos.find((p) => p.time)?.time;
+  const date = first ? formatDay(first, { weekday: "long", month: "long", day: "numeric" }) : undefined;
+  const candidates = [place, place && date ? `${place}, ${date}` : undefined, date, `Part ${at + 1}`].filter(
+    (c): c is string => !!c
+  );
+  const heading = candidates[attempt % candidates.length];
+  return { role: "chapter", heading, body: date && heading.includes(date) ? undefined : date };
+}
+
+function failure(err: unknown) {
+  return { ok: false as const, error: err instanceof Error ? err.message : "Failed to write text pages" };
+}
+
+/**
+ * suggestTextPages
+ * Server Action: proposes an album title page and chapter pages (with short intros) for the ordered
+ * photo pages. Errors are returned as values, as in tryAnalyzeImage.
+ */
+export async function suggestTextPages({ pages, albumName, provider }: StoryParams): Promise<SuggestResult> {
+  if (pages.length === 0) return { ok: true, pages: [] };
+  const prompt = `You are the editor of a printed photo album${albumName ? ` called "${albumName}"` : ""}. Below are its
+photo pages in order, with each photo's caption, tags, capture day and place. Propose:
+- title: the album's title page.
+- chapters: chapter pages that open a new part of the story (a new place, day or occasion). beforePage is the
+  number of the photo page the chapter opens (2-${pages.length}). Use up to ${Math.ceil(pages.length / 4)} chapters;
+  none for short albums.
+${RULES}
+
+${describePages(pages)}`;
+
+  try {
+    const proposal = await getProvider(provider).write({
+      prompt,
+      schema: proposalSchema,
+      offline: () => ({
+        title: offlineTitle(pages, albumName),
+        chapters: offlineChapters(pages).map((c) => ({ ...c.text, beforePage: c.beforePage! + 1 })),
+      }),
+    });
+
+    const seen = new Set<number>();
+    const chapters: TextSuggestion[] = [];
+    for (const c of [...proposal.chapters].sort((a, b) => a.beforePage - b.beforePage)) {
+      const beforePage = c.beforePage - 1;
+      if (beforePage < 1 || beforePage >= pages.length || seen.has(beforePage)) continue;
+      seen.add(beforePage);
+      chapters.push({ beforePage, text: { role: "chapter", ...clean(c) } });
+    }
+    return { ok: true, pages: [{ text: { role: "title", ...clean(proposal.title) } }, ...chapters] };
+  } catch (err: unknown) {
+    return failure(err);
+  }
+}
+
+/**
+ * rewriteTextPage
+ * Server Action: a different version of one title or chapter page. `attempt` varies the offline text.
+ */
+export async function rewriteTextPage({
+  pages,
+  albumName,
+  provider,
+  role,
+  beforePage,
+  current,
+  attempt = 0,
+}: StoryParams & { role: TextRole; beforePage?: number; current?: PageText; attempt?: number }): Promise<RewriteResult> {
+  const position = role === "title" || beforePage == null ? "at the start of the album" : `before photo page ${beforePage + 1}`;
+  const prompt = `You are the editor of a printed photo album${albumName ? ` called "${albumName}"` : ""}. Write a new
+${role} page placed ${position}.${current ? ` The current version is heading "${current.heading}"${current.body ? `, body "${current.body}"` : ""}; write something clearly different.` : ""}
+${RULES}
+
+${describePages(pages)}`;
+
+  try {
+    const text = await getProvider(provider).write({
+      prompt,
+      schema: textSchema,
+      offline: () =>
+        role === "title" || beforePage == null
+          ? offlineTitle(pages, albumName, attempt)
+          : offlineChapter(pages, beforePage, attempt),
+    });
+    return { ok: true, text: { role, ...clean(text) } };
+  } catch (err: unknown) {
+    return failure(err);
+  }
+}
@@ -0,0 +1,232 @@
+// Page layout templates. Each template places its slots on a grid of equal cells over the content box;
+// gutters fall between cells. The analysis schema, page building, the editor, the preview and the PDF
+// are all driven from this registry, so a new template only needs an entry here.
+
+// [col, row, colSpan, rowSpan] in grid cells
+type Cell = [number, number, number, number];
+
+export type LayoutTemplate = {
+  label: string;
+  // Guidance for the analysis prompt
+  hint: string;
+  cols: number;
+  rows: number;
+  // In reading order; later slots are drawn on top of earlier ones
+  slots: Cell[];
+  // Templates with overlapping slots are only used when recommended or picked, never as a fallback
+  fallback?: false;
+};
+
+const TEMPLATES = {
+  single: {
+    label: "Single",
+    hint: 'strong "hero" image or when details warrant a full page',
+    cols: 1,
+    rows: 1,
+    slots: [[0, 0, 1, 1]],
+  },
+  twoColumns: {
+    label: "Two columns",
+    hint: "two portrait-oriented images placed side-by-side",
+    cols: 2,
+    rows: 1,
+    slots: [
+      [0, 0, 1, 1],
+      [1, 0, 1, 1],
+    ],
+  },
+  twoRows: {
+    label: "Two rows",
+    hint: "two landscape-oriented images stacked vertically",
+    cols: 1,
+    rows: 2,
+    slots: [
+      [0, 0, 1, 1],
+      [0, 1, 1, 1],
+    ],
+  },
+  heroInset: {
+    label: "Hero with inset",
+    hint: "a large scenic image with a detail shot set into its corner",
+    cols: 10,
+    rows: 10,
+    slots: [
+      [0, 0, 10, 10],
+      [6, 6, 3, 3],
+    ],
+    fallback: false,
+  },
+  threeColumns: {
+    label: "Three columns",
+    hint: "three tall portrait images in a strip",
+    cols: 3,
+    rows: 1,
+    slots: [
+      [0, 0, 1, 1],
+      [1, 0, 1, 1],
+      [2, 0, 1, 1],
+    ],
+  },
+  threeRows: {
+    label: "Three rows",
+    hint: "three wide or panoramic images stacked vertically",
+    cols: 1,
+    rows: 3,
+    slots: [
+      [0, 0, 1, 1],
+      [0, 1, 1, 1],
+      [0, 2, 1, 1],
+    ],
+  },
+  largeLeft: {
+    label: "1 large + 2 small",
+    hint: "a key image next to two supporting details",
+    cols: 3,
+    rows: 2,
+    slots: [
+      [0, 0, 2, 2],
+      [2, 0, 1, 1],
+      [2, 1, 1, 1],
+    ],
+  },
+  largeTop: {
+    label: "1 wide + 2 below",
+    hint: "a wide key image above two supporting images",
+    cols: 2,
+    rows: 3,
+    slots: [
+      [0, 0, 2, 2],
+      [0, 2, 1, 1],
+      [1, 2, 1, 1],
+    ],
+  },
+  grid2x2: {
+    label: "Grid 2×2",
+    hint: "four complementary images that work well as a 2x2 grid",
+    cols: 2,
+    rows: 2,
+    slots: [
+      [0, 0, 1, 1],
+      [1, 0, 1, 1],
+      [0, 1, 1, 1],
+      [1, 1, 1, 1],
+    ],
+  },
+  twoOverThree: {
+    label: "2 over 3",
+    hint: "five images of one scene: two larger above three smaller",
+    cols: 6,
+    rows: 2,
+    slots: [
+      [0, 0, 3, 1],
+      [3, 0, 3, 1],
+      [0, 1, 2, 1],
+      [2, 1, 2, 1],
+      [4, 1, 2, 1],
+    ],
+  },
+  grid3x2: {
+    label: "Grid 3×2",
+    hint: "six small, similar images such as details or portraits",
+    cols: 3,
+    rows: 2,
+    slots: [
+      [0, 0, 1, 1],
+      [1, 0, 1, 1],
+      [2, 0, 1, 1],
+      [0, 1, 1, 1],
+      [1, 1, 1, 1],
+      [2, 1, 1, 1],
+    ],
+  },
+  largeWithFive: {
+    label: "1 large + 5 small",
+    hint: "a key image framed by five smaller moments",
+    cols: 3,
+    rows: 3,
+    slots: [
+      [0, 0, 2, 2],
+      [2, 0, 1, 1],
+      [2, 1, 1, 1],
+      [0, 2, 1, 1],
+      [1, 2, 1, 1],
+      [2, 2, 1, 1],
+    ],
+  },
+} satisfies Record<string, LayoutTemplate>;
+
+export type LayoutKind = keyof typeof TEMPLATES;
+
+export const LAYOUT_TEMPLATES: Record<LayoutKind, LayoutTemplate> = TEMPLATES;
+
+// Tuple form for z.enum
+export const LAYOUT_KINDS = Object.keys(TEMPLATES) as [LayoutKind, ...LayoutKind[]];
+
+export function isLayoutKind(value: unknown): value is LayoutKind {
+  return LAYOUT_KINDS.some((kind) => kind === value);
+}
+
+export const LAYOUT_CAPACITY = Object.fromEntries(
+  LAYOUT_KINDS.map((kind) => [kind, TEMPLATES[kind].slots.length])
+) as Record<LayoutKind, number>;
+
+export const MAX_CAPACITY = Math.max(...Object.values(LAYOUT_CAPACITY));
+
+// Most cells along either side of any template's grid
+export const MAX_GRID_CELLS = Math.max(...LAYOUT_KINDS.flatMap((kind) => [TEMPLATES[kind].cols, TEMPLATES[kind].rows]));
+
+// Rectangle of a slot's cells inside a box, with the gutter between cells
+export function cellRect(
+  { cols, rows }: Pick<LayoutTemplate, "cols" | "rows">,
+  [col, row, colSpan, rowSpan]: Cell,
+  box: { x: number; y: number; width: number; height: number },
+  gutter: number
+) {
+  const cellW = (box.width - (cols - 1) * gutter) / cols;
+  const cellH = (box.height - (rows - 1) * gutter) / rows;
+  return {
+    x: box.x + col * (cellW + gutter),
+    y: box.y + row * (cellH + gutter),
+    width: colSpan * cellW + (colSpan - 1) * gutter,
+    height: rowSpan * cellH + (rowSpan - 1) * gutter,
+  };
+}
+
+const UNIT = { x: 0, y: 0, width: 1, height: 1 };
+
+type Size = { width: number; height: number };
+
+// |log| of the ratio between two aspect ratios; 0 is a perfect fit, log(2) means one is twice as wide
+function aspectMismatch(a: Size, b: Size) {
+  return Math.abs(Math.log(a.width / a.height / (b.width / b.height)));
+}
+
+/**
+ * slotMismatch
+ * How badly a photo fits the best-matching slot of a template laid out over `box` (a square by default).
+ */
+export function slotMismatch(kind: LayoutKind, photo: Size, box: Size = UNIT) {
+  const t = TEMPLATES[kind] as LayoutTemplate;
+  return Math.min(...t.slots.map((cell) => aspectMismatch(photo, cellRect(t, cell, { x: 0, y: 0, ...box }, 0))));
+}
+
+/**
+ * fitTemplate
+ * Template for a given set of photos (in order): among the fallback templates with exactly one slot per
+ * photo, the one whose slot shapes on a square page best match the photos' aspect ratios.
+ */
+export function fitTemplate(items: Size[]): LayoutKind {
+  let best: LayoutKind | undefined;
+  let bestScore = Infinity;
+  for (const kind of LAYOUT_KINDS) {
+    const t = TEMPLATES[kind] as LayoutTemplate;
+    if (t.fallback === false || t.slots.length !== items.length) continue;
+    const score = t.slots.reduce((sum, cell, i) => sum + aspectMismatch(items[i], cellRect(t, cell, UNIT, 0)), 0);
+    if (score < bestScore) {
+      best = kind;
+      bestScore = score;
+    }
+  }
+  if (!best) throw new Error(`No layout template for ${items.length} photos`);
+  return best;
+}
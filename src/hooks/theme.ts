@@ -0,0 +1,111 @@
+import { z } from "zod";
+import type { Rect } from "@/hooks/layout";
+import type { PageSpec } from "@/hooks/spec";
+
+// Album-wide typography and colors, plus caption placement. Applied by the preview (screen and
+// print) and the PDF renderer from the same geometry helpers below.
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const themeSchema = z.object({
+  font: z.enum(["serif", "sans", "mono"]),
+  textColor: hexColor,
+  background: hexColor,
+  // line: hairline around each photo; frame: white mat inside the slot
+  border: z.enum(["none", "line", "frame"]),
+  captionPosition: z.enum(["below", "overlay", "footer"]),
+  // Caption of photos without their own caption setting
+  captions: z.enum(["none", "summary", "datePlace", "summaryDatePlace"]),
+});
+
+export type AlbumTheme = z.infer<typeof themeSchema>;
+export type CaptionPosition = AlbumTheme["captionPosition"];
+
+export const DEFAULT_THEME: AlbumTheme = {
+  font: "serif",
+  textColor: "#1a1a1a",
+  background: "#ffffff",
+  border: "none",
+  captionPosition: "below",
+  captions: "none",
+};
+
+export const THEMES: { id: string; label: string; theme: AlbumTheme }[] = [
+  { id: "classic", label: "Classic", theme: DEFAULT_THEME },
+  {
+    id: "modern",
+    label: "Modern",
+    theme: { ...DEFAULT_THEME, font: "sans", border: "line", captionPosition: "overlay", captions: "datePlace" },
+  },
+  {
+    id: "night",
+    label: "Night",
+    theme: { ...DEFAULT_THEME, font: "sans", textColor: "#eeeeee", background: "#141414", captionPosition: "footer" },
+  },
+  {
+    id: "vintage",
+    label: "Vintage",
+    theme: { ...DEFAULT_THEME, textColor: "#3b2f2f", background: "#f4ecd8", border: "frame", captions: "summary" },
+  },
+];
+
+export const FONT_STACKS: Record<AlbumTheme["font"], string> = {
+  serif: '"Times New Roman", Times, serif',
+  sans: "Helvetica, Arial, sans-serif",
+  mono: '"Courier New", Courier, monospace',
+};
+
+// Sizes as a fraction of the page width, like TEXT_SIZES
+export const CAPTION_SIZE = 0.014;
+export const CAPTION_LINE_HEIGHT = 1.3;
+const FRAME_WIDTH = 0.01;
+export const LINE_WIDTH_MM = 0.3;
+export const OVERLAY_OPACITY = 0.45;
+
+export function captionFontMm(spec: PageSpec) {
+  return spec.widthMm * CAPTION_SIZE;
+}
+
+// Height of a one-line caption strip (line plus half a line of padding)
+export function captionBandMm(spec: PageSpec) {
+  return captionFontMm(spec) * (CAPTION_LINE_HEIGHT + 0.5);
+}
+
+export function frameMm(spec: PageSpec) {
+  return spec.widthMm * FRAME_WIDTH;
+}
+
+/**
+ * photoArea
+ * Where the photo itself goes inside a slot: inset by the frame and shortened by a caption strip
+ * below it. Crops, print quality and the PDF all use this instead of the raw slot.
+ */
+export function photoArea(slot: Rect, spec: PageSpec, theme: AlbumTheme, hasCaption: boolean): Rect {
+  const inset = theme.border === "frame" ? frameMm(spec) : 0;
+  const below = hasCaption && theme.captionPosition === "below" ? captionBandMm(spec) : 0;
+  return {
+    x: slot.x + inset,
+    y: slot.y + inset,
+    width: slot.width - 2 * inset,
+    height: slot.height - 2 * inset - below,
+  };
+}
+
+// Caption strip inside the slot ("below": under the photo, "overlay": over its bottom edge)
+export function captionRect(slot: Rect, spec: PageSpec, theme: AlbumTheme): Rect {
+  const area = photoArea(slot, spec, theme, true);
+  const band = captionBandMm(spec);
+  const y = theme.captionPosition === "below" ? area.y + area.height : area.y + area.height - band;
+  return { x: area.x, y, width: area.width, height: band };
+}
+
+// Footer line in the bottom margin
+export function footerRect(spec: PageSpec): Rect {
+  const band = captionBandMm(spec);
+  return {
+    x: spec.marginMm,
+    y: spec.heightMm - (spec.marginMm + band) / 2,
+    width: spec.widthMm - 2 * spec.marginMm,
+    height: band,
+  };
+}
@@ -1,19 +1,3 @@
-export async function getImageDimensions(file: File): Promise<{ width: number; height: number }>
-{
-  const url = URL.createObjectURL(file);
-  try {
-    const img = new Image();
-    const dims = await new Promise<{ width: number; height: number }>((resolve, reject) => {
-      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
-      img.onerror = () => reject(new Error("Failed to load image"));
-      img.src = url;
-    });
-    return dims;
-  } finally {
-    URL.revokeObjectURL(url);
-  }
-}
-
 export function bytesToReadable(size: number): string {
   const units = ["B", "KB", "MB", "GB"]; // we won't go beyond
   let idx = 0;
@@ -24,3 +8,13 @@ export function bytesToReadable(size: number): string {
   }
   return `${s.toFixed(1)} ${units[idx]}`;
 }
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,143 @@
+import type { ModelAnalysis } from "@/hooks/models";
+import { LAYOUT_KINDS, slotMismatch, type LayoutKind } from "@/hooks/templates";
+
+// Post-processing of model answers. The prompt asks for a short caption, a few tags and a layout that suits
+// the photo, but models don't always comply. checkAnalysis fixes what needs no judgement (tag case,
+// duplicates, whitespace) and lists the rules that are still broken; analyzeImage sends those back to the
+// model, and repairAnalysis patches whatever is left.
+
+export const MAX_SUMMARY_WORDS = 12;
+export const MIN_TAGS = 3;
+export const MAX_TAGS = 6;
+
+// A photo in its best slot of the layout may be cropped to no less than ~40% of its width or height
+const MAX_SLOT_MISMATCH = Math.log(2.5);
+
+type Size = { width: number; height: number };
+
+export type AnalysisContext = Size & {
+  // Content box of the album format, which the layout's slots are laid out on
+  box: Size;
+};
+
+const LAYOUT_ALIASES: Record<string, LayoutKind> = {
+  col: "twoColumns",
+  column: "twoColumns",
+  columns: "twoColumns",
+  row: "twoRows",
+  rows: "twoRows",
+  grid: "grid2x2",
+  "2x2": "grid2x2",
+};
+
+/**
+ * parseLayout
+ * Layout kind from a loosely written value ("two-columns", "grid", ...), as found in analyses stored
+ * before layouts were validated.
+ */
+export function parseLayout(raw: unknown): LayoutKind | undefined {
+  if (typeof raw !== "string") return undefined;
+  const v = raw.toLowerCase().replace(/[-_\s]/g, "");
+  return LAYOUT_KINDS.find((kind) => kind.toLowerCase() === v) ?? LAYOUT_ALIASES[v];
+}
+
+// Layout for a photo without a usable recommendation: landscapes stack, portraits sit side by side
+export function orientationLayout(width: number, height: number): LayoutKind {
+  return width >= height ? "twoRows" : "twoColumns";
+}
+
+export function orientationOf(width: number, height: number) {
+  const aspect = width / height;
+  return aspect >= 1.15 ? "landscape" : aspect <= 0.87 ? "portrait" : "square";
+}
+
+// Named aspect ratios of the long over the short side, for tags
+const ASPECT_CLASSES: [string, number][] = [
+  ["1:1", 1],
+  ["4:3", 4 / 3],
+  ["3:2", 3 / 2],
+  ["16:9", 16 / 9],
+  ["panorama", 3],
+];
+
+/**
+ * fallbackTags
+ * Tags any photo can have: its orientation, aspect class and "photo". Always MIN_TAGS distinct ones, so an
+ * answer padded with them follows the tag rule.
+ */
+export function fallbackTags(width: number, height: number) {
+  const ratio = Math.log(Math.max(width, height) / Math.min(width, height));
+  const distance = ([, r]: [string, number]) => Math.abs(Math.log(r) - ratio);
+  const [aspect] = ASPECT_CLASSES.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+  return [orientationOf(width, height), aspect, "photo"];
+}
+
+function words(text: string) {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function normalizeTags(tags: string[]) {
+  const res: string[] = [];
+  for (const tag of tags) {
+    const t = tag.replace(/^\s*#+/, "").replace(/\s+/g, " ").trim().toLowerCase();
+    if (t && !res.includes(t)) res.push(t);
+  }
+  return res;
+}
+
+/**
+ * checkAnalysis
+ * Normalizes a model answer and lists the prompt rules it breaks, phrased so they can be sent back to the model.
+ */
+export function checkAnalysis(
+  object: ModelAnalysis,
+  { width, height, box }: AnalysisContext
+): { analysis: ModelAnalysis; violations: string[] } {
+  const analysis: ModelAnalysis = {
+    ...object,
+    contentSummary: words(object.contentSummary).join(" "),
+    tags: normalizeTags(object.tags),
+    objects: object.objects
+      .map((o) => o.trim())
+      .filter((o, i, all) => o && all.findIndex((other) => other.toLowerCase() === o.toLowerCase()) === i),
+  };
+  const violations: string[] = [];
+  const summaryWords = words(analysis.contentSummary).length;
+  if (summaryWords === 0) violations.push("contentSummary is empty");
+  if (summaryWords > MAX_SUMMARY_WORDS) {
+    violations.push(`contentSummary has ${summaryWords} words; use at most ${MAX_SUMMARY_WORDS}`);
+  }
+  if (analysis.tags.length < MIN_TAGS || analysis.tags.length > MAX_TAGS) {
+    violations.push(`tags has ${analysis.tags.length} distinct tags; give ${MIN_TAGS}-${MAX_TAGS}`);
+  }
+  if (slotMismatch(analysis.layout, { width, height }, box) > MAX_SLOT_MISMATCH) {
+    violations.push(
+      `layout ${analysis.layout} has no slot shaped for a ${orientationOf(width, height)} ${width}x${height} photo`
+    );
+  }
+  return { analysis, violations };
+}
+
+/**
+ * repairAnalysis
+ * Makes a checked answer follow the rules without asking the model again: the caption is cut, tags are
+ * padded from the objects and then fallbackTags or trimmed, and an unsuitable layout is replaced by the
+ * orientation default.
+ */
+export function repairAnalysis(analysis: ModelAnalysis, { width, height, box }: AnalysisContext): ModelAnalysis {
+  let summary = words(analysis.contentSummary).slice(0, MAX_SUMMARY_WORDS).join(" ");
+  if (words(analysis.contentSummary).length > MAX_SUMMARY_WORDS) summary = summary.replace(/[\s,;:–—-]+$/, "");
+  if (!summary) {
+    const subject = analysis.objects.slice(0, 2).join(" and ");
+    summary = subject ? subject[0].toUpperCase() + subject.slice(1) : "Photo";
+  }
+  const tags =
+    analysis.tags.length >= MIN_TAGS
+      ? analysis.tags
+      : normalizeTags([...analysis.tags, ...analysis.objects, ...fallbackTags(width, height)]);
+  const layout =
+    slotMismatch(analysis.layout, { width, height }, box) > MAX_SLOT_MISMATCH
+      ? orientationLayout(width, height)
+      : analysis.layout;
+  return { ...analysis, contentSummary: summary, tags: tags.slice(0, MAX_TAGS), layout };
+}
@@ -0,0 +1,197 @@
+import type { Placement } from "@/hooks/quality";
+import type { PageSpec, PdfRequest } from "@/hooks/spec";
+
+// Photo book vendor profiles: the specs a print shop wants for an order. Exports for a vendor are checked
+// against its profile, padded to a page count it accepts, converted to its color space and split into an
+// interior file and a cover file (back, spine and front on one sheet).
+
+export type PrintColorSpace = "srgb" | "cmyk";
+
+// What fills the pages added to reach a valid page count
+export type Padding = "blank" | "filler";
+
+export type VendorProfile = {
+  id: string;
+  label: string;
+  // Interior trim size
+  widthMm: number;
+  heightMm: number;
+  bleedMm: number;
+  // Distance from the trim that photos (except full-bleed ones) and text should keep
+  safeMm: number;
+  minDpi: number;
+  colorSpace: PrintColorSpace;
+  cropMarks: boolean;
+  // Interior page counts the vendor binds
+  minPages: number;
+  maxPages: number;
+  pageMultiple: number;
+  padding: Padding;
+  cover: {
+    // Board wrap (hardcover) or bleed (softcover) around the cover trim
+    wrapMm: number;
+    // Spine width: spineBaseMm + spinePerPageMm × interior pages
+    spineBaseMm: number;
+    spinePerPageMm: number;
+  };
+};
+
+// Example profiles with typical specs; add your vendor's here
+export const VENDOR_PROFILES: VendorProfile[] = [
+  {
+    id: "layflat30",
+    label: "Layflat hardcover 30×30 cm (CMYK)",
+    widthMm: 300,
+    heightMm: 300,
+    bleedMm: 3,
+    safeMm: 10,
+    minDpi: 300,
+    colorSpace: "cmyk",
+    cropMarks: false,
+    minPages: 20,
+    maxPages: 100,
+    pageMultiple: 2,
+    padding: "blank",
+    cover: { wrapMm: 15, spineBaseMm: 6, spinePerPageMm: 0.4 },
+  },
+  {
+    id: "hardcoverA4",
+    label: "Hardcover A4 portrait (CMYK)",
+    widthMm: 210,
+    heightMm: 297,
+    bleedMm: 3,
+    safeMm: 8,
+    minDpi: 300,
+    colorSpace: "cmyk",
+    cropMarks: true,
+    minPages: 24,
+    maxPages: 200,
+    pageMultiple: 4,
+    padding: "filler",
+    cover: { wrapMm: 15, spineBaseMm: 4, spinePerPageMm: 0.08 },
+  },
+  {
+    id: "softcover30x20",
+    label: "Softcover 30×20 cm landscape (sRGB)",
+    widthMm: 300,
+    heightMm: 200,
+    bleedMm: 3,
+    safeMm: 6,
+    minDpi: 250,
+    colorSpace: "srgb",
+    cropMarks: false,
+    minPages: 20,
+    maxPages: 120,
+    pageMultiple: 4,
+    padding: "blank",
+    cover: { wrapMm: 3, spineBaseMm: 0.5, spinePerPageMm: 0.06 },
+  },
+];
+
+// Page sizes closer than this count as the same
+const SIZE_TOLERANCE_MM = 0.5;
+
+export function findVendor(id: string | undefined): VendorProfile | undefined {
+  return VENDOR_PROFILES.find((v) => v.id === id);
+}
+
+export function vendorSizeMatches(profile: VendorProfile, spec: PageSpec) {
+  return (
+    Math.abs(profile.widthMm - spec.widthMm) < SIZE_TOLERANCE_MM &&
+    Math.abs(profile.heightMm - spec.heightMm) < SIZE_TOLERANCE_MM
+  );
+}
+
+// The album format switched to a vendor's page size; margins are kept clear of its safe zone
+export function vendorFormat(profile: VendorProfile, spec: PageSpec): PageSpec {
+  return {
+    ...spec,
+    widthMm: profile.widthMm,
+    heightMm: profile.heightMm,
+    marginMm: Math.max(spec.marginMm, profile.safeMm),
+    bleedMm: profile.bleedMm,
+    cropMarks: profile.cropMarks,
+  };
+}
+
+// The page spec an export for the vendor is rendered with
+export function vendorPageSpec(profile: VendorProfile, spec: PageSpec): PageSpec {
+  return { ...spec, bleedMm: profile.bleedMm, cropMarks: profile.cropMarks };
+}
+
+/**
+ * paddedPageCount
+ * The smallest page count the vendor binds that holds `pages` pages; undefined when there are too many.
+ */
+export function paddedPageCount(profile: VendorProfile, pages: number): number | undefined {
+  const count = Math.ceil(Math.max(pages, profile.minPages) / profile.pageMultiple) * profile.pageMultiple;
+  return count <= profile.maxPages ? count : undefined;
+}
+
+// Heading of filler pages; a page to write on suits a photo book better than an empty one
+const FILLER_HEADING = "Notes";
+
+// Pages appended to an export to reach a page count the vendor binds
+export function paddingPages(padding: Padding, count: number): PdfRequest["pages"] {
+  return Array.from({ length: count }, () =>
+    padding === "filler"
+      ? { type: "text" as const, text: { role: "chapter" as const, heading: FILLER_HEADING } }
+      : { type: "blank" as const }
+  );
+}
+
+export function spineWidthMm(profile: VendorProfile, pages: number) {
+  return Math.round((profile.cover.spineBaseMm + profile.cover.spinePerPageMm * pages) * 10) / 10;
+}
+
+export type VendorIssue = { severity: "error" | "warning"; message: string };
+
+/**
+ * checkVendor
+ * What keeps an album from being ordered from a vendor (errors) or may print differently than expected
+ * (warnings). `pages` is the number of printed interior pages, including blanks before spreads.
+ */
+export function checkVendor(
+  profile: VendorProfile,
+  spec: PageSpec,
+  pages: number,
+  placements: Placement[]
+): VendorIssue[] {
+  const issues: VendorIssue[] = [];
+  if (!vendorSizeMatches(profile, spec)) {
+    issues.push({
+      severity: "error",
+      message:
+        `Pages are ${spec.widthMm}×${spec.heightMm} mm; ${profile.label} needs ` +
+        `${profile.widthMm}×${profile.heightMm} mm`,
+    });
+  }
+  const padded = paddedPageCount(profile, pages);
+  if (padded === undefined) {
+    issues.push({
+      severity: "error",
+      message: `${pages} pages is more than the ${profile.maxPages} this vendor binds`,
+    });
+  } else if (padded > pages) {
+    issues.push({
+      severity: "warning",
+      message:
+        `${padded - pages} page(s) will be added to reach ${padded} ` +
+        `(${profile.minPages}-${profile.maxPages} pages, in multiples of ${profile.pageMultiple})`,
+    });
+  }
+  if (spec.marginMm < profile.safeMm) {
+    issues.push({
+      severity: "warning",
+      message: `Margins of ${spec.marginMm} mm reach into the vendor's ${profile.safeMm} mm safe zone`,
+    });
+  }
+  const low = placements.filter((p) => p.dpi < profile.minDpi).length;
+  if (low > 0) {
+    issues.push({
+      severity: "warning",
+      message: `${low} photo(s) print below the vendor's minimum of ${profile.minDpi} DPI`,
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,142 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { z } from "zod";
+import { pdfRequestSchema, photoPageRequestSchema, textPageRequestSchema } from "@/hooks/spec";
+
+// The web viewer of an album (/album/[id]): a read-only copy of its pages, published from the editor with
+// photos at a few screen sizes (see published.ts), and a static copy of the viewer that opens from disk.
+
+// Widths (px) each photo is published at; smaller photos keep their size
+export const VIEWER_WIDTHS = [640, 1280, 2048];
+
+// Horizontal drag (px) that turns the page
+export const SWIPE_PX = 50;
+
+// Request header carrying an album's publish key (see published.ts)
+export const PUBLISH_KEY_HEADER = "X-Publish-Key";
+
+export const publishRequestSchema = z.object({
+  name: z.string().max(200),
+  spec: pdfRequestSchema.shape.spec,
+  theme: pdfRequestSchema.shape.theme,
+  pages: z.array(z.discriminatedUnion("type", [photoPageRequestSchema, textPageRequestSchema])).min(1),
+});
+
+export type PublishRequest = z.infer<typeof publishRequestSchema>;
+
+export const publishedAlbumSchema = publishRequestSchema.extend({
+  id: z.string(),
+  publishedAt: z.iso.datetime(),
+  // By photo id: the published image (content hash) and the photo's upright size
+  photos: z.record(z.string(), z.object({ image: z.string(), width: z.number(), height: z.number() })),
+});
+
+export type PublishedAlbum = z.infer<typeof publishedAlbumSchema>;
+
+// Album ids are project ids; anything else is refused before it reaches a file path
+export function isAlbumId(id: string) {
+  return /^[\w-]{1,64}$/.test(id);
+}
+
+export function viewerImageName(image: string, width: number) {
+  return `${image}-${width}.jpg`;
+}
+
+// The smallest published width that covers `width`
+export function viewerWidth(width: number) {
+  return VIEWER_WIDTHS.find((w) => w >= width) ?? VIEWER_WIDTHS[VIEWER_WIDTHS.length - 1];
+}
+
+// Navigation of the static copy, on the markup AlbumViewer renders: one opening at a time, turned with the
+// buttons, the arrow keys or a swipe
+const STATIC_SCRIPT = `(() => {
+  const sheets = [...document.querySelectorAll("[data-sheet]")];
+  const prev = document.querySelector("[data-viewer-prev]");
+  const next = document.querySelector("[data-viewer-next]");
+  const counter = document.querySelector("[data-viewer-counter]");
+  let current = 0;
+  const show = (i) => {
+    current = Math.max(0, Math.min(sheets.length - 1, i));
+    sheets.forEach((sheet, j) => (sheet.hidden = j !== current));
+    prev.disabled = current === 0;
+    next.disabled = current === sheets.length - 1;
+    counter.textContent = sheets[current].dataset.label;
+  };
+  prev.addEventListener("click", () => show(current - 1));
+  next.addEventListener("click", () => show(current + 1));
+  addEventListener("keydown", (e) => {
+    if (e.key === "ArrowLeft") show(current - 1);
+    if (e.key === "ArrowRight") show(current + 1);
+  });
+  let startX = null;
+  const stage = document.querySelector("[data-viewer-stage]");
+  stage.addEventListener("pointerdown", (e) => (startX = e.clientX));
+  stage.addEventListener("pointerup", (e) => {
+    if (startX === null) return;
+    const dx = e.clientX - startX;
+    startX = null;
+    if (Math.abs(dx) > ${SWIPE_PX}) show(current + (dx < 0 ? 1 : -1));
+  });
+  show(0);
+})();`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+
+// Rules of the page's stylesheets; the copy needs no build step to look the same
+function pageStyles() {
+  return Array.from(document.styleSheets)
+    .flatMap((sheet) => {
+      try {
+        return Array.from(sheet.cssRules, (rule) => rule.cssText);
+      } catch {
+        // Cross-origin sheets can't be read
+        return [];
+      }
+    })
+    .join("\n");
+}
+
+export function staticFolderName(album: Pick<PublishedAlbum, "name">) {
+  return (
+    album.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "album"
+  );
+}
+
+/**
+ * staticAlbum
+ * A self-contained copy of the rendered viewer `root`, zipped as one folder: index.html with the page's styles
+ * and a navigation script, and the published images under images/. Opens from disk without a server.
+ */
+export async function staticAlbum(root: HTMLElement, album: PublishedAlbum, imageBase: string): Promise<Blob> {
+  const images: Zippable = {};
+  for (const { image } of Object.values(album.photos)) {
+    for (const width of VIEWER_WIDTHS) {
+      const name = viewerImageName(image, width);
+      if (images[name]) continue;
+      const res = await fetch(imageBase + name);
+      if (!res.ok) throw new Error(`Could not download ${name} (${res.status})`);
+      // Already compressed
+      images[name] = [new Uint8Array(await res.arrayBuffer()), { level: 0 }];
+    }
+  }
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(album.name)}</title>
+<style>${pageStyles()}</style>
+</head>
+<body class="antialiased">
+${root.outerHTML.replaceAll(imageBase, "images/")}
+<script>${STATIC_SCRIPT}</script>
+</body>
+</html>
+`;
+  // Images are stored as they are, so zipping is a copy
+  const zipped = zipSync({ [staticFolderName(album)]: { "index.html": strToU8(html), images } });
+  return new Blob([zipped as Uint8Array<ArrayBuffer>], { type: "application/zip" });
+}